@@ -1,9 +1,30 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { ConnectionStatus, Message } from './types.ts';
-import { ITERO_SYSTEM_INSTRUCTION, WASTE_TYPES } from './constants.ts';
-import { decode, encode, decodeAudioData, createBlob } from './utils/audio.ts';
+import React, { useState, useEffect, useRef, useCallback, useMemo, useSyncExternalStore } from 'react';
+import { FunctionCall, FunctionResponse } from '@google/genai';
+import { ConnectionStatus, FeedstockAssessment, EnquiryDraft, ImpactInput, InputMode, LanguageCode, PrivacyConsent, SpeakingState } from './types.ts';
+import { WASTE_TYPES, REJECTED_WASTE_TYPES, RECORDING_SAMPLE_RATE, LIVE_MODEL, LIVE_TEXT_MODEL, KNOWLEDGE_VERSION, IMPACT_VERSION, LANGUAGES, VOICES, DEFAULT_VOICE } from './constants.ts';
+import { saveConsultation, saveMetrics } from './utils/historyStore.ts';
+import { createTelemetrySource } from './utils/telemetry.ts';
+import { loadImageFile } from './utils/camera.ts';
+import { loadConsent, recordConsent, redactMessages, withdrawConsent } from './utils/privacy.ts';
+import { EndedSession, SessionController, SessionSettings, SessionState } from './session/controller.ts';
+import { GenAiLiveTransport } from './session/transport.ts';
+import { handleToolCall } from './session/tools.ts';
+import { useTelemetry } from './hooks/useTelemetry.ts';
+import { useBackendHealth } from './hooks/useBackendHealth.ts';
+import { useSpeakingState } from './hooks/useSpeakingState.ts';
+import { useRetention } from './hooks/useRetention.ts';
+import { I18nContext, MessageKey, Translator, detectLanguage, languageOption, translate, useI18n } from './i18n/index.ts';
+import FeedstockCard from './components/FeedstockCard.tsx';
+import HistoryBrowser from './components/HistoryBrowser.tsx';
+import PlantMonitor from './components/PlantMonitor.tsx';
+import EnquiryForm from './components/EnquiryForm.tsx';
+import InputModeBar from './components/InputModeBar.tsx';
+import TextComposer from './components/TextComposer.tsx';
+import AudioVisualizer from './components/AudioVisualizer.tsx';
+import ImpactCalculator from './components/ImpactCalculator.tsx';
+import CameraPanel from './components/CameraPanel.tsx';
+import ConsentDialog from './components/ConsentDialog.tsx';
 
 const IteroLogo = ({ className = "w-10 h-10" }: { className?: string }) => (
   <svg viewBox="0 0 100 100" className={className} fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -15,327 +36,500 @@ const IteroLogo = ({ className = "w-10 h-10" }: { className?: string }) => (
   </svg>
 );
 
-const Header: React.FC = () => (
-  <header className="flex items-center justify-between p-4 md:p-6 bg-slate-950/80 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
-    <div className="flex items-center gap-3">
-      <IteroLogo className="w-10 h-10 md:w-12 md:h-12 drop-shadow-[0_0_10px_rgba(254,87,51,0.3)]" />
-      <div>
-        <h1 className="text-xl md:text-2xl font-black text-white tracking-tighter leading-none">
-          ITERO<span className="text-[#FE5733]">TECH</span>
-        </h1>
-        <p className="text-[9px] md:text-[10px] text-slate-500 font-bold uppercase tracking-[0.2em] mt-1">Circular Economy Systems</p>
-      </div>
-    </div>
-    <div className="flex items-center gap-4">
-      <div className="hidden lg:flex items-center gap-6 text-xs font-bold text-slate-500 uppercase tracking-widest mr-4">
-        <a href="#" className="hover:text-[#FE5733] transition-colors">Technology</a>
-        <a href="#" className="hover:text-[#FE5733] transition-colors">WLPP</a>
+interface HeaderProps {
+  coreReady: boolean | null;
+  language: LanguageCode;
+  voice: string;
+  onLanguageChange: (language: LanguageCode) => void;
+  onVoiceChange: (voice: string) => void;
+  // Language and voice are fixed once a session has started.
+  locked: boolean;
+}
+
+const Header: React.FC<HeaderProps> = ({ coreReady, language, voice, onLanguageChange, onVoiceChange, locked }) => {
+  const t = useI18n();
+  const selectClass = 'bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:outline-none focus:border-[#FE5733] disabled:opacity-40';
+
+  return (
+    <header className="flex items-center justify-between p-4 md:p-6 bg-slate-950/80 backdrop-blur-md border-b border-slate-800 sticky top-0 z-50">
+      <div className="flex items-center gap-3">
+        <IteroLogo className="w-10 h-10 md:w-12 md:h-12 drop-shadow-[0_0_10px_rgba(254,87,51,0.3)]" />
+        <div>
+          <h1 className="text-xl md:text-2xl font-black text-white tracking-tighter leading-none">
+            ITERO<span className="text-[#FE5733]">TECH</span>
+          </h1>
+          <p className="text-[9px] md:text-[10px] text-slate-500 font-bold uppercase tracking-[0.2em] mt-1">{t('tagline')}</p>
+        </div>
       </div>
-      <div className={`px-3 py-1 rounded-full text-[10px] font-black tracking-tighter border ${process.env.API_KEY ? 'border-emerald-500/30 text-emerald-500' : 'border-red-500/30 text-red-500'}`}>
-        {process.env.API_KEY ? 'CORE READY' : 'CORE OFFLINE'}
+      <div className="flex items-center gap-4">
+        <div className="hidden lg:flex items-center gap-6 text-xs font-bold text-slate-500 uppercase tracking-widest mr-4">
+          <a href="#" className="hover:text-[#FE5733] transition-colors">{t('navTechnology')}</a>
+          <a href="#" className="hover:text-[#FE5733] transition-colors">WLPP</a>
+        </div>
+        <div className="flex items-center gap-2" title={locked ? t('settingsLocked') : undefined}>
+          <select
+            aria-label={t('languageLabel')}
+            value={language}
+            onChange={e => onLanguageChange(e.target.value as LanguageCode)}
+            disabled={locked}
+            className={selectClass}
+          >
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+          <select
+            aria-label={t('voiceLabel')}
+            value={voice}
+            onChange={e => onVoiceChange(e.target.value)}
+            disabled={locked}
+            className={`hidden md:block ${selectClass}`}
+          >
+            {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </div>
+        <div className={`px-3 py-1 rounded-full text-[10px] font-black tracking-tighter border ${
+          coreReady === null ? 'border-slate-500/30 text-slate-500' : coreReady ? 'border-emerald-500/30 text-emerald-500' : 'border-red-500/30 text-red-500'
+        }`}>
+          {t(coreReady === null ? 'coreChecking' : coreReady ? 'coreReady' : 'coreOffline')}
+        </div>
       </div>
-    </div>
-  </header>
-);
+    </header>
+  );
+};
+
+const SPEAKING_MESSAGES: Record<SpeakingState, { title: MessageKey; detail: MessageKey; glow: string }> = {
+  [SpeakingState.LISTENING]: { title: 'stateListening', detail: 'detailListening', glow: 'bg-[#FE5733]/10 shadow-[0_0_60px_rgba(254,87,51,0.2)]' },
+  [SpeakingState.USER_SPEAKING]: { title: 'stateUserSpeaking', detail: 'detailUserSpeaking', glow: 'bg-emerald-500/10 shadow-[0_0_60px_rgba(16,185,129,0.3)]' },
+  [SpeakingState.AGENT_SPEAKING]: { title: 'stateAgentSpeaking', detail: 'detailAgentSpeaking', glow: 'bg-[#FE5733]/20 shadow-[0_0_80px_rgba(254,87,51,0.4)]' },
+  [SpeakingState.INTERRUPTED]: { title: 'stateInterrupted', detail: 'detailInterrupted', glow: 'bg-amber-500/10 shadow-[0_0_60px_rgba(245,158,11,0.3)]' },
+};
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
-  const [errorDetail, setErrorDetail] = useState<string | null>(null);
-  const [transcriptionHistory, setTranscriptionHistory] = useState<Message[]>([]);
-  const [isMuted, setIsMuted] = useState(false);
-  const [currentInputText, setCurrentInputText] = useState('');
-  const [currentOutputText, setCurrentOutputText] = useState('');
-
-  const inputAudioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const outputNodeRef = useRef<GainNode | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-
-  const appendToHistory = useCallback((role: 'user' | 'model', text: string) => {
-    if (!text.trim()) return;
-    setTranscriptionHistory(prev => [...prev, { role, text, timestamp: new Date() }]);
+  const [voiceReplies, setVoiceReplies] = useState(true);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [feedstockAssessment, setFeedstockAssessment] = useState<FeedstockAssessment | null>(null);
+  const [savedCount, setSavedCount] = useState(0);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const [enquiryDraft, setEnquiryDraft] = useState<EnquiryDraft | null>(null);
+  const [impactInput, setImpactInput] = useState<ImpactInput>({ feedstock: WASTE_TYPES[0], tonnes: 100 });
+  const [impactQuoted, setImpactQuoted] = useState(false);
+  const [language, setLanguage] = useState<LanguageCode>(() => detectLanguage());
+  const [voice, setVoice] = useState(DEFAULT_VOICE);
+  const [consent, setConsent] = useState<PrivacyConsent | null>(() => loadConsent());
+  const [askingConsent, setAskingConsent] = useState(false);
+  // The consent a session started under, saved with it even if it is withdrawn mid-session.
+  const sessionConsentRef = useRef<PrivacyConsent | null>(null);
+  const [retentionDays, setRetentionDays] = useRetention(() => setSavedCount(c => c + 1));
+
+  const t = useCallback<Translator>((key, params) => translate(language, key, params), [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const coreReady = useBackendHealth();
+  const telemetrySource = useMemo(() => createTelemetrySource(), []);
+  const telemetry = useTelemetry(telemetrySource);
+  // Tool calls run inside Live callbacks, which would otherwise see the telemetry of the render that connected.
+  const telemetryRef = useRef(telemetry);
+  telemetryRef.current = telemetry;
+
+  const handleFunctionCall = (fc: FunctionCall, session: SessionState, settings: SessionSettings): FunctionResponse =>
+    handleToolCall(fc, session, settings, {
+      onFeedstockAssessed: setFeedstockAssessment,
+      onEnquiryDrafted: setEnquiryDraft,
+      onImpactQuoted: input => {
+        setImpactInput(input);
+        setImpactQuoted(true);
+      },
+      getTelemetry: () => telemetryRef.current,
+    });
+  const handleFunctionCallRef = useRef(handleFunctionCall);
+  handleFunctionCallRef.current = handleFunctionCall;
+
+  const saveSession = useCallback(async ({ startedAt, endedAt, messages, settings, recording }: EndedSession) => {
+    try {
+      await saveConsultation({
+        id: crypto.randomUUID(),
+        startedAt,
+        endedAt,
+        messages: redactMessages(messages),
+        metadata: {
+          model: settings.voiceReplies ? LIVE_MODEL : LIVE_TEXT_MODEL,
+          voice: settings.voiceReplies ? settings.voice : 'none',
+          language: settings.language.code,
+          knowledgeVersion: KNOWLEDGE_VERSION,
+          impactVersion: IMPACT_VERSION,
+          consent: sessionConsentRef.current ?? undefined,
+          userAgent: navigator.userAgent,
+        },
+        recording: recording && { sampleRate: RECORDING_SAMPLE_RATE, durationSeconds: recording.durationSeconds, sizeBytes: recording.blob.size },
+      }, recording?.blob);
+      setSaveFailed(false);
+      setSavedCount(c => c + 1);
+    } catch {
+      setSaveFailed(true);
+    }
   }, []);
 
+  const [controller] = useState(() => new SessionController({
+    transport: new GenAiLiveTransport(),
+    onToolCall: (call, session, settings) => handleFunctionCallRef.current(call, session, settings),
+    onSessionEnd: saveSession,
+    // Metrics only feed the internal dashboard, where a session that could not be stored is simply missing.
+    onMetrics: metrics => saveMetrics(metrics).then(() => {}, () => {}),
+  }));
+  const {
+    status, notice, reconnectAttempt, history: transcriptionHistory, pendingInput: currentInputText, pendingOutput: currentOutputText,
+    micAvailable, isMuted, inputMode, isTransmitting, cameraStream, cameraAvailable, pendingImages,
+  } = useSyncExternalStore(controller.subscribe, controller.getState);
+
+  useEffect(() => () => { controller.stop(); }, [controller]);
+
   // Fix: Added missing toggleMute function
   const toggleMute = useCallback(() => {
-    setIsMuted(prev => !prev);
-  }, []);
+    controller.setMuted(!controller.getState().isMuted);
+  }, [controller]);
 
-  const stopSession = useCallback(() => {
-    if (sessionRef.current) sessionRef.current.close();
-    if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
-    if (inputAudioContextRef.current) inputAudioContextRef.current.close();
-    if (outputAudioContextRef.current) outputAudioContextRef.current.close();
-    sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-    sourcesRef.current.clear();
-    setStatus(ConnectionStatus.DISCONNECTED);
-    setCurrentInputText('');
-    setCurrentOutputText('');
-  }, []);
+  const setPushing = useCallback((pushing: boolean) => {
+    controller.setPushing(pushing);
+  }, [controller]);
 
-  const startSession = async () => {
-    try {
-      if (!process.env.API_KEY) throw new Error("API Key configuration missing.");
-      
-      setStatus(ConnectionStatus.CONNECTING);
-      setErrorDetail(null);
-
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-
-      const AudioCtx = (window as any).AudioContext || (window as any).webkitAudioContext;
-      inputAudioContextRef.current = new AudioCtx({ sampleRate: 16000 });
-      outputAudioContextRef.current = new AudioCtx({ sampleRate: 24000 });
-      await inputAudioContextRef.current!.resume();
-      await outputAudioContextRef.current!.resume();
-
-      outputNodeRef.current = outputAudioContextRef.current!.createGain();
-      outputNodeRef.current.connect(outputAudioContextRef.current!.destination);
-
-      // Create a new GoogleGenAI instance right before making an API call to ensure it uses the latest configuration.
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
-          systemInstruction: ITERO_SYSTEM_INSTRUCTION,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
-            setStatus(ConnectionStatus.CONNECTED);
-            const source = inputAudioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              if (isMuted) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              // CRITICAL: Solely rely on sessionPromise resolves and then call `session.sendRealtimeInput`
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputAudioContextRef.current!.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (base64Audio && outputAudioContextRef.current) {
-              const ctx = outputAudioContextRef.current;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(outputNodeRef.current!);
-              source.onended = () => sourcesRef.current.delete(source);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-            if (message.serverContent?.inputTranscription) setCurrentInputText(prev => prev + message.serverContent!.inputTranscription!.text);
-            if (message.serverContent?.outputTranscription) setCurrentOutputText(prev => prev + message.serverContent!.outputTranscription!.text);
-            if (message.serverContent?.turnComplete) {
-              setCurrentInputText(t => { if (t) appendToHistory('user', t); return ''; });
-              setCurrentOutputText(t => { if (t) appendToHistory('model', t); return ''; });
-            }
-            if (message.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
-          },
-          onerror: (e) => {
-            setErrorDetail("Interface connection failed. Retrying...");
-            setStatus(ConnectionStatus.ERROR);
-            stopSession();
-          },
-          onclose: () => setStatus(ConnectionStatus.DISCONNECTED)
-        }
-      });
-      sessionRef.current = await sessionPromise;
-    } catch (err: any) {
-      setStatus(ConnectionStatus.ERROR);
-      setErrorDetail(err.message || "Failed to start voice interface.");
-      stopSession();
+  const changeInputMode = useCallback((mode: InputMode) => {
+    controller.setInputMode(mode);
+  }, [controller]);
+
+  // Spacebar push-to-talk, unless the user is typing somewhere.
+  useEffect(() => {
+    if (inputMode !== InputMode.PUSH_TO_TALK || status !== ConnectionStatus.CONNECTED) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setPushing(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setPushing(false);
+    };
+    const release = () => setPushing(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [inputMode, status, setPushing]);
+
+  const showImageFile = async (file: File) => {
+    controller.sendImage(await loadImageFile(file));
+  };
+
+  const stopSession = () => {
+    controller.stop();
+  };
+
+  const beginSession = (sessionConsent: PrivacyConsent) => {
+    if (coreReady === false) {
+      controller.fail({ key: 'errorBackendOffline' });
+      return;
     }
+    sessionConsentRef.current = sessionConsent;
+    controller.start({ voiceReplies, language: languageOption(language), voice, record: recordAudio });
   };
 
+  // Nothing is streamed until the caller has agreed to the current privacy notice.
+  const startSession = () => {
+    if (consent) beginSession(consent);
+    else setAskingConsent(true);
+  };
+
+  const acceptConsent = () => {
+    const accepted = recordConsent();
+    setConsent(accepted);
+    setAskingConsent(false);
+    beginSession(accepted);
+  };
+
+  const revokeConsent = () => {
+    withdrawConsent();
+    setConsent(null);
+    if (status !== ConnectionStatus.DISCONNECTED && status !== ConnectionStatus.ERROR) controller.stop();
+  };
+
+  const isSessionActive = status === ConnectionStatus.CONNECTED || status === ConnectionStatus.RECONNECTING;
+  const canStop = isSessionActive || status === ConnectionStatus.CONNECTING;
+  const speakingState = useSpeakingState(status === ConnectionStatus.CONNECTED, controller);
+  const speaking = SPEAKING_MESSAGES[speakingState];
+  const noticeText = notice && (notice.detail || t(notice.key, notice.params));
+
   return (
-    <div className="min-h-screen flex flex-col bg-slate-950 text-slate-100 font-sans">
-      <Header />
-
-      <main className="flex-1 max-w-7xl w-full mx-auto p-4 md:p-8 flex flex-col lg:flex-row gap-6 md:gap-8">
-        {/* Left Stats Column */}
-        <div className="lg:w-1/3 space-y-6">
-          <section className="bg-slate-900/60 rounded-3xl p-6 border border-slate-800 shadow-2xl relative overflow-hidden">
-            <h2 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em] mb-4">Plant Monitoring: WLPP</h2>
-            <div className="flex justify-between items-center mb-4">
-              <span className="text-sm text-slate-400 font-bold">Pilot Stream Alpha</span>
-              <span className="px-2 py-0.5 bg-emerald-500/10 text-emerald-500 text-[10px] font-black rounded border border-emerald-500/20 animate-pulse">LIVE DATA</span>
-            </div>
-            <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden mb-4">
-              <div className="h-full bg-gradient-to-r from-[#FE5733] to-emerald-500 w-[84%] rounded-full shadow-[0_0_10px_rgba(16,185,129,0.3)]"></div>
-            </div>
-            <div className="grid grid-cols-2 gap-4">
-              <div className="bg-slate-950/40 p-3 rounded-2xl border border-white/5">
-                <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Conversion</p>
-                <p className="text-lg font-black text-white">84.2%</p>
+    <I18nContext.Provider value={t}>
+      <div className="min-h-screen flex flex-col bg-slate-950 text-slate-100 font-sans">
+        <Header
+          coreReady={coreReady}
+          language={language}
+          voice={voice}
+          onLanguageChange={setLanguage}
+          onVoiceChange={setVoice}
+          locked={isSessionActive || status === ConnectionStatus.CONNECTING}
+        />
+
+        <main className="flex-1 max-w-7xl w-full mx-auto p-4 md:p-8 flex flex-col lg:flex-row gap-6 md:gap-8">
+          {/* Left Stats Column */}
+          <div className="lg:w-1/3 space-y-6">
+            <PlantMonitor telemetry={telemetry} />
+
+            {feedstockAssessment && (
+              <FeedstockCard assessment={feedstockAssessment} onDismiss={() => setFeedstockAssessment(null)} />
+            )}
+
+            <ImpactCalculator
+              input={impactInput}
+              onChange={input => { setImpactInput(input); setImpactQuoted(false); }}
+              quoted={impactQuoted}
+            />
+
+            <section className="bg-slate-900/40 rounded-3xl p-6 border border-slate-800">
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">{t('approvedFeedstocks')}</h2>
+              <div className="space-y-2">
+                {WASTE_TYPES.map((type, i) => (
+                  <div key={i} className="flex items-center gap-3 p-3 bg-slate-950/30 rounded-xl border border-white/5 text-xs font-bold text-slate-300">
+                    <i className="fa-solid fa-recycle text-[#FE5733]"></i>
+                    {type}
+                  </div>
+                ))}
               </div>
-              <div className="bg-slate-950/40 p-3 rounded-2xl border border-white/5">
-                <p className="text-[9px] text-slate-500 font-bold uppercase mb-1">Temp (C)</p>
-                <p className="text-lg font-black text-white">420°</p>
+              <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mt-6 mb-4">{t('notAccepted')}</h2>
+              <div className="space-y-2">
+                {REJECTED_WASTE_TYPES.map((type, i) => (
+                  <div key={i} className="flex items-center gap-3 p-3 bg-slate-950/30 rounded-xl border border-white/5 text-xs font-bold text-slate-500">
+                    <i className="fa-solid fa-ban text-red-500/60"></i>
+                    {type}
+                  </div>
+                ))}
               </div>
-            </div>
-          </section>
-
-          <section className="bg-slate-900/40 rounded-3xl p-6 border border-slate-800">
-            <h2 className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] mb-4">Approved Feedstocks</h2>
-            <div className="space-y-2">
-              {WASTE_TYPES.map((type, i) => (
-                <div key={i} className="flex items-center gap-3 p-3 bg-slate-950/30 rounded-xl border border-white/5 text-xs font-bold text-slate-300">
-                  <i className="fa-solid fa-recycle text-[#FE5733]"></i>
-                  {type}
-                </div>
-              ))}
-            </div>
-          </section>
-        </div>
+            </section>
+          </div>
 
-        {/* Center Interface Column */}
-        <div className="lg:w-2/3 flex flex-col gap-6">
-          <div className="bg-slate-900/60 rounded-[2.5rem] border border-slate-800 flex flex-col shadow-2xl relative overflow-hidden">
-            <div className="absolute inset-0 opacity-[0.05] pointer-events-none bg-[radial-gradient(#FE5733_1px,transparent_0)] bg-[size:30px_30px]"></div>
+          {/* Center Interface Column */}
+          <div className="lg:w-2/3 flex flex-col gap-6">
+            <div className="bg-slate-900/60 rounded-[2.5rem] border border-slate-800 flex flex-col shadow-2xl relative overflow-hidden">
+              <div className="absolute inset-0 opacity-[0.05] pointer-events-none bg-[radial-gradient(#FE5733_1px,transparent_0)] bg-[size:30px_30px]"></div>
             
-            {/* Visualizer Area */}
-            <div className="flex-1 flex flex-col items-center justify-center p-12 min-h-[350px]">
-              <div className="relative group">
-                <div className={`w-48 h-48 md:w-56 md:h-56 rounded-full flex items-center justify-center transition-all duration-1000 ${
-                  status === ConnectionStatus.CONNECTED ? 'bg-[#FE5733]/10 shadow-[0_0_60px_rgba(254,87,51,0.2)]' : 'bg-slate-800/50'
-                }`}>
-                  <div className={`w-32 h-32 md:w-36 md:h-36 rounded-full flex items-center justify-center transition-all duration-500 ${
-                    status === ConnectionStatus.CONNECTED ? 'bg-gradient-to-br from-[#FE5733] to-[#981600] scale-110' : 
-                    status === ConnectionStatus.ERROR ? 'bg-red-600' : 'bg-slate-700'
+              {/* Visualizer Area */}
+              <div className="flex-1 flex flex-col items-center justify-center p-12 min-h-[350px]">
+                <div className="relative group">
+                  <div className={`w-48 h-48 md:w-56 md:h-56 rounded-full flex items-center justify-center transition-all duration-1000 ${
+                    status === ConnectionStatus.CONNECTED ? speaking.glow : 'bg-slate-800/50'
                   }`}>
-                    {status === ConnectionStatus.CONNECTED ? (
-                      <div className="flex gap-1 h-8 items-center">
-                        {[1, 2, 3, 4].map(i => (
-                          <div key={i} className="w-1.5 bg-white rounded-full animate-bounce" style={{ animationDuration: `${0.4 + i*0.1}s`, height: `${40 + i*15}%` }}></div>
-                        ))}
-                      </div>
-                    ) : (
-                      <i className={`fa-solid ${status === ConnectionStatus.CONNECTING ? 'fa-spinner fa-spin' : 'fa-microphone'} text-4xl text-white opacity-40`}></i>
-                    )}
+                    <div className={`w-32 h-32 md:w-36 md:h-36 rounded-full flex items-center justify-center transition-all duration-500 ${
+                      status === ConnectionStatus.CONNECTED ? 'bg-gradient-to-br from-[#FE5733] to-[#981600] scale-110' : 
+                      status === ConnectionStatus.ERROR ? 'bg-red-600' : 'bg-slate-700'
+                    }`}>
+                      {status === ConnectionStatus.CONNECTED ? (
+                        <AudioVisualizer source={controller} state={speakingState} />
+                      ) : (
+                        <i className={`fa-solid ${status === ConnectionStatus.CONNECTING || status === ConnectionStatus.RECONNECTING ? 'fa-spinner fa-spin' : 'fa-microphone'} text-4xl text-white opacity-40`}></i>
+                      )}
+                    </div>
                   </div>
                 </div>
-              </div>
 
-              <div className="mt-10 text-center z-10 max-w-sm">
-                <h3 className={`text-2xl font-black mb-2 uppercase tracking-tight ${status === ConnectionStatus.ERROR ? 'text-red-500' : 'text-white'}`}>
-                  {status === ConnectionStatus.CONNECTED ? 'SIGNAL ACTIVE' : 
-                   status === ConnectionStatus.CONNECTING ? 'INITIALIZING...' :
-                   status === ConnectionStatus.ERROR ? 'SYSTEM ERROR' : 'VOICE INTERFACE'}
-                </h3>
-                <p className="text-slate-500 font-bold text-xs uppercase tracking-widest leading-relaxed">
-                  {status === ConnectionStatus.CONNECTED ? 'Speak freely with our technical consultant' : 
-                   status === ConnectionStatus.ERROR ? (errorDetail || 'Hardware failure detected') :
-                   'Experience Itero Circular Economy Consulting'}
-                </p>
+                <div className="mt-10 text-center z-10 max-w-sm">
+                  <h3 className={`text-2xl font-black mb-2 uppercase tracking-tight ${status === ConnectionStatus.ERROR ? 'text-red-500' : 'text-white'}`}>
+                    {status === ConnectionStatus.CONNECTED ? t(speaking.title) : 
+                     status === ConnectionStatus.CONNECTING ? t('statusConnecting') :
+                     status === ConnectionStatus.RECONNECTING ? t('statusReconnecting', { attempt: reconnectAttempt, max: controller.reconnect.maxAttempts }) :
+                     status === ConnectionStatus.ERROR ? t('statusError') : t('statusIdle')}
+                  </h3>
+                  <p className="text-slate-500 font-bold text-xs uppercase tracking-widest leading-relaxed">
+                    {status === ConnectionStatus.CONNECTED ? t(speaking.detail) : 
+                     status === ConnectionStatus.ERROR ? (noticeText || t('detailError')) :
+                     status === ConnectionStatus.RECONNECTING ? noticeText :
+                     t('detailIdle')}
+                  </p>
+                </div>
               </div>
-            </div>
 
-            {/* Transcription Bubble */}
-            {(currentInputText || currentOutputText) && (
-              <div className="px-8 pb-4">
-                <div className="bg-slate-950/80 backdrop-blur-xl p-5 rounded-3xl border border-[#FE5733]/30 shadow-2xl animate-in fade-in slide-in-from-bottom-2">
-                  <div className="text-sm font-medium leading-relaxed">
-                    {currentInputText && <p className="text-slate-500 mb-2">"{currentInputText}"</p>}
-                    {currentOutputText && <p className="text-white border-l-2 border-[#FE5733] pl-4">{currentOutputText}</p>}
+              {/* Transcription Bubble */}
+              {(currentInputText || currentOutputText) && (
+                <div className="px-8 pb-4">
+                  <div className="bg-slate-950/80 backdrop-blur-xl p-5 rounded-3xl border border-[#FE5733]/30 shadow-2xl animate-in fade-in slide-in-from-bottom-2">
+                    <div className="text-sm font-medium leading-relaxed">
+                      {currentInputText && <p className="text-slate-500 mb-2">"{currentInputText}"</p>}
+                      {currentOutputText && <p className="text-white border-l-2 border-[#FE5733] pl-4">{currentOutputText}</p>}
+                    </div>
                   </div>
                 </div>
+              )}
+
+              <CameraPanel
+                connected={status === ConnectionStatus.CONNECTED}
+                cameraStream={cameraStream}
+                cameraAvailable={cameraAvailable}
+                pendingImages={pendingImages}
+                onStartCamera={() => controller.startCamera()}
+                onStopCamera={() => controller.stopCamera()}
+                onImageFile={showImageFile}
+              />
+
+              <TextComposer
+                onSend={text => controller.sendText(text)}
+                connected={status === ConnectionStatus.CONNECTED}
+                sessionActive={isSessionActive || status === ConnectionStatus.CONNECTING}
+                voiceReplies={voiceReplies}
+                onVoiceRepliesChange={setVoiceReplies}
+              />
+
+              {/* Control Bar - THE BUTTONS */}
+              <div className="p-8 md:p-10 bg-slate-900/90 border-t border-slate-800 flex items-center justify-center gap-6">
+                {inputMode === InputMode.PUSH_TO_TALK ? (
+                  <button 
+                    onPointerDown={() => setPushing(true)}
+                    onPointerUp={() => setPushing(false)}
+                    onPointerLeave={() => setPushing(false)}
+                    onPointerCancel={() => setPushing(false)}
+                    disabled={status !== ConnectionStatus.CONNECTED || !micAvailable}
+                    className={`w-14 h-14 rounded-2xl flex items-center justify-center border-2 transition-all select-none touch-none ${
+                      isTransmitting ? 'bg-emerald-500/20 border-emerald-500 text-emerald-500' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-[#FE5733]'
+                    } disabled:opacity-20`}
+                  >
+                    <i className="fa-solid fa-microphone text-xl"></i>
+                  </button>
+                ) : (
+                  <button 
+                    onClick={toggleMute}
+                    disabled={status !== ConnectionStatus.CONNECTED || !micAvailable}
+                    className={`w-14 h-14 rounded-2xl flex items-center justify-center border-2 transition-all ${
+                      isMuted ? 'bg-red-500/20 border-red-500 text-red-500' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-[#FE5733]'
+                    } disabled:opacity-20`}
+                  >
+                    <i className={`fa-solid ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'} text-xl`}></i>
+                  </button>
+                )}
+
+                <button
+                  onClick={() => setRecordAudio(r => !r)}
+                  disabled={isSessionActive || status === ConnectionStatus.CONNECTING}
+                  title={t(recordAudio ? 'recordOn' : 'recordOff')}
+                  className={`w-14 h-14 rounded-2xl flex items-center justify-center border-2 transition-all ${
+                    recordAudio ? 'bg-red-500/10 border-red-500 text-red-500' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-[#FE5733]'
+                  } ${recordAudio && isSessionActive ? 'animate-pulse' : ''} disabled:cursor-not-allowed`}
+                >
+                  <i className="fa-solid fa-circle-dot text-xl"></i>
+                </button>
+
+                {/* While connecting this cancels the start, so consent can be withdrawn before anything streams. */}
+                <button 
+                  onClick={canStop ? stopSession : startSession}
+                  className={`flex-1 md:flex-none md:px-12 py-5 rounded-2xl font-black text-sm uppercase tracking-[0.2em] transition-all shadow-2xl flex items-center justify-center gap-3 ${
+                    canStop 
+                      ? 'bg-red-600 hover:bg-red-700 text-white' 
+                      : 'bg-gradient-to-r from-[#FE5733] to-[#981600] text-white hover:scale-[1.02] active:scale-95'
+                  }`}
+                >
+                  <i className={`fa-solid ${canStop ? 'fa-phone-slash' : 'fa-bolt-lightning'} text-lg`}></i>
+                  {t(canStop ? 'endSession' : 'startSession')}
+                </button>
+
+                <button 
+                  onClick={async () => { await controller.stop(); window.location.reload(); }}
+                  title={t('reload')}
+                  className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-800 border-2 border-slate-700 text-slate-400 hover:border-[#FE5733] transition-all"
+                >
+                  <i className="fa-solid fa-rotate-right text-xl"></i>
+                </button>
               </div>
+
+              <InputModeBar
+                mode={inputMode}
+                onChange={changeInputMode}
+                active={status === ConnectionStatus.CONNECTED}
+                micAvailable={micAvailable}
+                isMuted={isMuted}
+                isTransmitting={isTransmitting}
+              />
+            </div>
+
+            {enquiryDraft && (
+              <EnquiryForm key={enquiryDraft.id} draft={enquiryDraft} onClose={() => setEnquiryDraft(null)} />
             )}
 
-            {/* Control Bar - THE BUTTONS */}
-            <div className="p-8 md:p-10 bg-slate-900/90 border-t border-slate-800 flex items-center justify-center gap-6">
-              <button 
-                onClick={toggleMute}
-                disabled={status !== ConnectionStatus.CONNECTED}
-                className={`w-14 h-14 rounded-2xl flex items-center justify-center border-2 transition-all ${
-                  isMuted ? 'bg-red-500/20 border-red-500 text-red-500' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-[#FE5733]'
-                } disabled:opacity-20`}
-              >
-                <i className={`fa-solid ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'} text-xl`}></i>
-              </button>
-
-              <button 
-                onClick={status === ConnectionStatus.CONNECTED ? stopSession : startSession}
-                className={`flex-1 md:flex-none md:px-12 py-5 rounded-2xl font-black text-sm uppercase tracking-[0.2em] transition-all shadow-2xl flex items-center justify-center gap-3 ${
-                  status === ConnectionStatus.CONNECTED 
-                    ? 'bg-red-600 hover:bg-red-700 text-white' 
-                    : 'bg-gradient-to-r from-[#FE5733] to-[#981600] text-white hover:scale-[1.02] active:scale-95'
-                }`}
-              >
-                <i className={`fa-solid ${status === ConnectionStatus.CONNECTED ? 'fa-phone-slash' : 'fa-bolt-lightning'} text-lg`}></i>
-                {status === ConnectionStatus.CONNECTED ? 'End Session' : 'Initialize Agent'}
-              </button>
-
-              <button 
-                onClick={() => window.location.reload()}
-                className="w-14 h-14 rounded-2xl flex items-center justify-center bg-slate-800 border-2 border-slate-700 text-slate-400 hover:border-[#FE5733] transition-all"
-              >
-                <i className="fa-solid fa-rotate-right text-xl"></i>
-              </button>
+            {/* Transcript Log */}
+            <div className="bg-slate-900/40 rounded-[2.5rem] p-8 border border-slate-800 flex-1 min-h-[250px] shadow-xl">
+              <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-[0.2em] mb-6 flex items-center gap-3">
+                <span className="w-1.5 h-1.5 bg-[#FE5733] rounded-full"></span>
+                {t('consultationLog')}
+              </h4>
+              <div className="space-y-4 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
+                {transcriptionHistory.length === 0 ? (
+                  <div className="text-center py-12 opacity-20 flex flex-col items-center">
+                    <i className="fa-solid fa-shield-halved text-4xl mb-4"></i>
+                    <p className="text-[10px] font-black uppercase tracking-widest">{t('awaitingLink')}</p>
+                  </div>
+                ) : (
+                  transcriptionHistory.map((msg, i) => (
+                    <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[85%] p-4 rounded-2xl text-xs font-bold leading-relaxed shadow-lg ${
+                        msg.role === 'user' ? 'bg-slate-800 text-slate-300 rounded-tr-none' : 'bg-slate-900 text-white border border-[#FE5733]/20 rounded-tl-none'
+                      }`}>
+                        {msg.images && (
+                          <div className="flex flex-wrap gap-2 mb-2">
+                            {msg.images.map((image, j) => (
+                              <img key={j} src={image.dataUrl} alt={t('imageAlt')} className="h-20 rounded-xl object-cover border border-white/10" />
+                            ))}
+                          </div>
+                        )}
+                        {msg.modality === 'text' && <i className="fa-solid fa-keyboard text-[10px] opacity-40 mr-2"></i>}
+                        {msg.text}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
+
+            <HistoryBrowser refreshKey={savedCount} saveFailed={saveFailed} retentionDays={retentionDays} onRetentionChange={setRetentionDays} />
           </div>
+        </main>
 
-          {/* Transcript Log */}
-          <div className="bg-slate-900/40 rounded-[2.5rem] p-8 border border-slate-800 flex-1 min-h-[250px] shadow-xl">
-            <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-[0.2em] mb-6 flex items-center gap-3">
-              <span className="w-1.5 h-1.5 bg-[#FE5733] rounded-full"></span>
-              Consultation Log
-            </h4>
-            <div className="space-y-4 max-h-[300px] overflow-y-auto pr-2 custom-scrollbar">
-              {transcriptionHistory.length === 0 ? (
-                <div className="text-center py-12 opacity-20 flex flex-col items-center">
-                  <i className="fa-solid fa-shield-halved text-4xl mb-4"></i>
-                  <p className="text-[10px] font-black uppercase tracking-widest">Awaiting Secure Link...</p>
-                </div>
-              ) : (
-                transcriptionHistory.map((msg, i) => (
-                  <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[85%] p-4 rounded-2xl text-xs font-bold leading-relaxed shadow-lg ${
-                      msg.role === 'user' ? 'bg-slate-800 text-slate-300 rounded-tr-none' : 'bg-slate-900 text-white border border-[#FE5733]/20 rounded-tl-none'
-                    }`}>
-                      {msg.text}
-                    </div>
-                  </div>
-                ))
+        <footer className="p-6 bg-slate-950 border-t border-slate-900">
+          <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center gap-4 text-[10px] font-bold text-slate-600 uppercase tracking-[0.2em]">
+            <p>&copy; {new Date().getFullYear()} Itero Technologies Ltd</p>
+            <div className="flex gap-6">
+              <a href="#" className="hover:text-[#FE5733]">{t('privacyPolicy')}</a>
+              <a href="#" className="hover:text-[#FE5733]">{t('compliance')}</a>
+              {consent && (
+                <button
+                  type="button"
+                  onClick={revokeConsent}
+                  title={t('consentGivenOn', { date: consent.acceptedAt.toLocaleString(language) })}
+                  className="uppercase tracking-[0.2em] hover:text-[#FE5733]"
+                >
+                  {t('consentWithdraw')}
+                </button>
               )}
             </div>
           </div>
-        </div>
-      </main>
-
-      <footer className="p-6 bg-slate-950 border-t border-slate-900">
-        <div className="max-w-7xl mx-auto flex flex-col md:flex-row justify-between items-center gap-4 text-[10px] font-bold text-slate-600 uppercase tracking-[0.2em]">
-          <p>&copy; {new Date().getFullYear()} Itero Technologies Ltd</p>
-          <div className="flex gap-6">
-            <a href="#" className="hover:text-[#FE5733]">Privacy Policy</a>
-            <a href="#" className="hover:text-[#FE5733]">Compliance</a>
-          </div>
-        </div>
-      </footer>
-
-      <style>{`
-        .custom-scrollbar::-webkit-scrollbar { width: 3px; }
-        .custom-scrollbar::-webkit-scrollbar-track { background: transparent; }
-        .custom-scrollbar::-webkit-scrollbar-thumb { background: #1e293b; border-radius: 20px; }
-        .custom-scrollbar::-webkit-scrollbar-thumb:hover { background: #FE5733; }
-      `}</style>
-    </div>
+        </footer>
+
+        {askingConsent && (
+          <ConsentDialog storageNotice={t('consentStorage', { days: retentionDays })} onAccept={acceptConsent} onDecline={() => setAskingConsent(false)} />
+        )}
+
+        <style>{`
+          .custom-scrollbar::-webkit-scrollbar { width: 3px; }
+          .custom-scrollbar::-webkit-scrollbar-track { background: transparent; }
+          .custom-scrollbar::-webkit-scrollbar-thumb { background: #1e293b; border-radius: 20px; }
+          .custom-scrollbar::-webkit-scrollbar-thumb:hover { background: #FE5733; }
+        `}</style>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,232 @@
+
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { ConnectionStatus, EnquiryDraft, Message, PrivacyConsent, SpeakingState, WidgetConfig, WidgetTheme } from '../types.ts';
+import { saveMetrics } from '../utils/historyStore.ts';
+import { createTelemetrySource } from '../utils/telemetry.ts';
+import { loadConsent, recordConsent } from '../utils/privacy.ts';
+import { SessionController } from '../session/controller.ts';
+import { GenAiLiveTransport } from '../session/transport.ts';
+import { handleToolCall } from '../session/tools.ts';
+import { useTelemetry } from '../hooks/useTelemetry.ts';
+import { useBackendHealth } from '../hooks/useBackendHealth.ts';
+import { useSpeakingState } from '../hooks/useSpeakingState.ts';
+import { MessageKey, languageOption, useI18n } from '../i18n/index.ts';
+import { HostChannel, enquiryEvent, transcriptEvent } from '../widget/events.ts';
+import ConsentDialog from './ConsentDialog.tsx';
+import EnquiryForm from './EnquiryForm.tsx';
+import TextComposer from './TextComposer.tsx';
+
+const SPEAKING_TITLES: Record<SpeakingState, MessageKey> = {
+  [SpeakingState.LISTENING]: 'stateListening',
+  [SpeakingState.USER_SPEAKING]: 'stateUserSpeaking',
+  [SpeakingState.AGENT_SPEAKING]: 'stateAgentSpeaking',
+  [SpeakingState.INTERRUPTED]: 'stateInterrupted',
+};
+
+// The composer, enquiry form and consent dialog keep their dark styling; the theme covers the shell.
+const THEMES: Record<WidgetTheme, { shell: string; muted: string; user: string; agent: string; button: string }> = {
+  dark: {
+    shell: 'bg-slate-950 text-slate-100',
+    muted: 'text-slate-500',
+    user: 'bg-slate-800 text-slate-300',
+    agent: 'bg-slate-900 text-white border border-[#FE5733]/20',
+    button: 'bg-slate-800 border-slate-700 text-slate-400',
+  },
+  light: {
+    shell: 'bg-white text-slate-900',
+    muted: 'text-slate-400',
+    user: 'bg-slate-100 text-slate-700',
+    agent: 'bg-white text-slate-900 border border-[#FE5733]/30',
+    button: 'bg-slate-100 border-slate-200 text-slate-500',
+  },
+};
+
+interface AssistantWidgetProps {
+  config: WidgetConfig;
+  channel: HostChannel;
+}
+
+/**
+ * The consultation in a compact panel for the widget page. Transcripts and enquiries go to
+ * the host page through `channel` rather than into this browser's history; only the quality
+ * metrics are stored, as in the full app.
+ */
+const AssistantWidget: React.FC<AssistantWidgetProps> = ({ config, channel }) => {
+  const t = useI18n();
+  const [voiceReplies, setVoiceReplies] = useState(true);
+  // Agreeing to the app's notice, or to another host's, does not cover sending transcripts to this host.
+  const consentScope = `embedded:${config.hostOrigin ?? 'unknown'}`;
+  const [consent, setConsent] = useState<PrivacyConsent | null>(() => loadConsent(undefined, consentScope));
+  const [askingConsent, setAskingConsent] = useState(false);
+  const [enquiryDraft, setEnquiryDraft] = useState<EnquiryDraft | null>(null);
+
+  const coreReady = useBackendHealth();
+  const telemetrySource = useMemo(() => createTelemetrySource(), []);
+  const telemetry = useTelemetry(telemetrySource);
+  const telemetryRef = useRef(telemetry);
+  telemetryRef.current = telemetry;
+  // Sessions that never connected end without a `session-start`, so they are not reported at all.
+  const startReported = useRef(false);
+  // History accumulates over the widget's sessions; `reported` counts the entries already posted.
+  const reported = useRef(0);
+  const reportTranscript = (messages: Message[]) => {
+    messages.slice(reported.current).forEach(message => channel.post(transcriptEvent(message)));
+    reported.current = messages.length;
+  };
+
+  const [controller] = useState(() => new SessionController({
+    transport: new GenAiLiveTransport(),
+    // There is no room for the feedstock card or impact panel; the agent still answers with the results.
+    onToolCall: (call, session, settings) => handleToolCall(call, session, settings, {
+      onFeedstockAssessed: () => {},
+      onEnquiryDrafted: setEnquiryDraft,
+      onImpactQuoted: () => {},
+      getTelemetry: () => telemetryRef.current,
+    }),
+    onMetrics: metrics => {
+      // The last turn joins the history just before this, ahead of the render that would post it.
+      reportTranscript(controller.getState().history);
+      if (startReported.current) {
+        startReported.current = false;
+        channel.post({
+          type: 'session-end',
+          endedAt: new Date(),
+          reason: metrics.endReason,
+          durationSeconds: metrics.durationSeconds,
+          turns: metrics.turns,
+        });
+      }
+      return saveMetrics(metrics).then(() => {}, () => {});
+    },
+  }));
+  const { status, notice, reconnectAttempt, history, pendingInput, pendingOutput, micAvailable, isMuted } =
+    useSyncExternalStore(controller.subscribe, controller.getState);
+
+  useEffect(() => () => { controller.stop(); }, [controller]);
+
+  useEffect(() => {
+    channel.post({ type: 'ready', config: { voice: config.voice, theme: config.theme, language: config.language } });
+  }, [channel, config]);
+
+  // Reconnects pass through RECONNECTING, not CONNECTING, so this fires once per session.
+  const previousStatus = useRef(status);
+  useEffect(() => {
+    if (previousStatus.current === ConnectionStatus.CONNECTING && status === ConnectionStatus.CONNECTED) {
+      startReported.current = true;
+      channel.post({ type: 'session-start', startedAt: new Date() });
+    }
+    previousStatus.current = status;
+  }, [channel, status]);
+
+  useEffect(() => reportTranscript(history), [channel, history]);
+
+  const beginSession = () => {
+    if (coreReady === false) {
+      controller.fail({ key: 'errorBackendOffline' });
+      return;
+    }
+    controller.start({ voiceReplies, language: languageOption(config.language), voice: config.voice, record: false, context: config.context });
+  };
+
+  const startSession = () => {
+    if (consent) beginSession();
+    else setAskingConsent(true);
+  };
+
+  const acceptConsent = () => {
+    setConsent(recordConsent(new Date(), undefined, consentScope));
+    setAskingConsent(false);
+    beginSession();
+  };
+
+  const isSessionActive = status === ConnectionStatus.CONNECTED || status === ConnectionStatus.RECONNECTING;
+  const speakingState = useSpeakingState(status === ConnectionStatus.CONNECTED, controller);
+  const noticeText = notice && (notice.detail || t(notice.key, notice.params));
+  const theme = THEMES[config.theme];
+  const host = config.hostOrigin ? new URL(config.hostOrigin).host : t('widgetUnknownHost');
+
+  return (
+    <div className={`h-screen flex flex-col font-sans ${theme.shell}`}>
+      <header className="px-5 py-4 border-b border-[#FE5733]/20 flex items-center justify-between gap-3">
+        <div>
+          <h1 className="text-sm font-black tracking-tight">{t('widgetTitle')}</h1>
+          <p className={`text-[10px] font-bold uppercase tracking-widest ${status === ConnectionStatus.ERROR ? 'text-red-500' : theme.muted}`}>
+            {status === ConnectionStatus.CONNECTED ? t(SPEAKING_TITLES[speakingState]) :
+             status === ConnectionStatus.CONNECTING ? t('statusConnecting') :
+             status === ConnectionStatus.RECONNECTING ? t('statusReconnecting', { attempt: reconnectAttempt, max: controller.reconnect.maxAttempts }) :
+             status === ConnectionStatus.ERROR ? (noticeText || t('detailError')) : t('statusIdle')}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => controller.setMuted(!isMuted)}
+            disabled={status !== ConnectionStatus.CONNECTED || !micAvailable}
+            className={`w-10 h-10 rounded-xl flex items-center justify-center border-2 transition-all ${
+              isMuted ? 'bg-red-500/20 border-red-500 text-red-500' : `${theme.button} hover:border-[#FE5733]`
+            } disabled:opacity-20`}
+          >
+            <i className={`fa-solid ${isMuted ? 'fa-microphone-slash' : 'fa-microphone'}`}></i>
+          </button>
+          <button
+            type="button"
+            onClick={isSessionActive ? () => controller.stop() : startSession}
+            disabled={status === ConnectionStatus.CONNECTING}
+            title={t(isSessionActive ? 'endSession' : 'startSession')}
+            className={`w-10 h-10 rounded-xl flex items-center justify-center text-white transition-all disabled:opacity-50 ${
+              isSessionActive ? 'bg-red-600 hover:bg-red-700' : 'bg-gradient-to-r from-[#FE5733] to-[#981600] hover:scale-105 active:scale-95'
+            }`}
+          >
+            <i className={`fa-solid ${
+              status === ConnectionStatus.CONNECTING ? 'fa-spinner fa-spin' : isSessionActive ? 'fa-phone-slash' : 'fa-bolt-lightning'
+            }`}></i>
+          </button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-3">
+        {history.length === 0 && !pendingInput && !pendingOutput && (
+          <p className={`text-xs font-bold leading-relaxed ${theme.muted}`}>{t('widgetIntro')}</p>
+        )}
+        {history.map((msg, i) => (
+          <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] p-3 rounded-2xl text-xs font-bold leading-relaxed ${
+              msg.role === 'user' ? `${theme.user} rounded-tr-none` : `${theme.agent} rounded-tl-none`
+            }`}>
+              {msg.modality === 'text' && <i className="fa-solid fa-keyboard text-[10px] opacity-40 mr-2"></i>}
+              {msg.text}
+            </div>
+          </div>
+        ))}
+        {(pendingInput || pendingOutput) && (
+          <div className="text-xs font-medium leading-relaxed">
+            {pendingInput && <p className={`${theme.muted} mb-1`}>"{pendingInput}"</p>}
+            {pendingOutput && <p className="border-l-2 border-[#FE5733] pl-3">{pendingOutput}</p>}
+          </div>
+        )}
+        {enquiryDraft && (
+          <EnquiryForm
+            key={enquiryDraft.id}
+            draft={enquiryDraft}
+            onClose={() => setEnquiryDraft(null)}
+            onSent={sent => channel.post(enquiryEvent(sent))}
+          />
+        )}
+      </div>
+
+      <TextComposer
+        onSend={text => controller.sendText(text)}
+        connected={status === ConnectionStatus.CONNECTED}
+        sessionActive={isSessionActive || status === ConnectionStatus.CONNECTING}
+        voiceReplies={voiceReplies}
+        onVoiceRepliesChange={setVoiceReplies}
+      />
+
+      {askingConsent && (
+        <ConsentDialog storageNotice={t('consentEmbedded', { host })} onAccept={acceptConsent} onDecline={() => setAskingConsent(false)} />
+      )}
+    </div>
+  );
+};
+
+export default AssistantWidget;
@@ -0,0 +1,72 @@
+
+import React, { useEffect, useRef } from 'react';
+import { AudioAnalysers, SpeakingState } from '../types.ts';
+
+const SIZE = 144;
+const POINTS = 96;
+
+const COLORS: Record<SpeakingState, { input: string; output: string }> = {
+  [SpeakingState.LISTENING]: { input: 'rgba(255,255,255,0.5)', output: 'rgba(255,255,255,0.25)' },
+  [SpeakingState.USER_SPEAKING]: { input: '#34d399', output: 'rgba(255,255,255,0.25)' },
+  [SpeakingState.AGENT_SPEAKING]: { input: 'rgba(255,255,255,0.3)', output: '#ffffff' },
+  [SpeakingState.INTERRUPTED]: { input: '#fbbf24', output: 'rgba(251,191,36,0.4)' },
+};
+
+// Draws each stream as a ring whose radius follows its waveform: the caller's inside,
+// the agent's outside.
+const drawRing = (ctx: CanvasRenderingContext2D, samples: Float32Array, radius: number, amplitude: number, color: string) => {
+  ctx.beginPath();
+  for (let i = 0; i <= POINTS; i++) {
+    const sample = samples.length ? samples[Math.floor((i % POINTS) / POINTS * samples.length)] : 0;
+    const angle = (i / POINTS) * Math.PI * 2 - Math.PI / 2;
+    const r = radius + Math.max(-1, Math.min(1, sample * 4)) * amplitude;
+    const x = SIZE / 2 + Math.cos(angle) * r;
+    const y = SIZE / 2 + Math.sin(angle) * r;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+};
+
+// `source` is read every frame, so it can swap its analysers as the audio graph is rebuilt.
+const AudioVisualizer: React.FC<{ source: { analysers: AudioAnalysers | null }; state: SpeakingState }> = ({ source, state }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = SIZE * scale;
+    canvas.height = SIZE * scale;
+    ctx.scale(scale, scale);
+
+    const buffers = new Map<AnalyserNode, Float32Array>();
+    const read = (analyser: AnalyserNode | null | undefined) => {
+      if (!analyser) return new Float32Array(0);
+      let buffer = buffers.get(analyser);
+      if (!buffer) buffers.set(analyser, buffer = new Float32Array(analyser.fftSize));
+      analyser.getFloatTimeDomainData(buffer);
+      return buffer;
+    };
+
+    let frame = 0;
+    const draw = () => {
+      const colors = COLORS[stateRef.current];
+      ctx.clearRect(0, 0, SIZE, SIZE);
+      drawRing(ctx, read(source.analysers?.output), SIZE * 0.36, SIZE * 0.12, colors.output);
+      drawRing(ctx, read(source.analysers?.input), SIZE * 0.22, SIZE * 0.1, colors.input);
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [source]);
+
+  return <canvas ref={canvasRef} className="w-full h-full" />;
+};
+
+export default AudioVisualizer;
@@ -0,0 +1,78 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageImage } from '../types.ts';
+import { useI18n } from '../i18n/index.ts';
+
+interface CameraPanelProps {
+  connected: boolean;
+  cameraStream: MediaStream | null;
+  cameraAvailable: boolean;
+  pendingImages: MessageImage[];
+  onStartCamera: () => void;
+  onStopCamera: () => void;
+  /** Rejects when the file cannot be read as an image. */
+  onImageFile: (file: File) => Promise<void>;
+}
+
+const CameraPanel: React.FC<CameraPanelProps> = ({ connected, cameraStream, cameraAvailable, pendingImages, onStartCamera, onStopCamera, onImageFile }) => {
+  const t = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [unreadable, setUnreadable] = useState(false);
+  const buttonClass = 'w-11 h-11 shrink-0 rounded-xl flex items-center justify-center border-2 transition-all disabled:opacity-30';
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = cameraStream;
+  }, [cameraStream]);
+
+  return (
+    <div className="px-8 md:px-10 pb-4 flex items-center gap-3">
+      <button
+        type="button"
+        onClick={cameraStream ? onStopCamera : onStartCamera}
+        disabled={!connected || (!cameraAvailable && !cameraStream)}
+        title={t(!cameraAvailable ? 'cameraUnavailable' : cameraStream ? 'cameraStop' : 'cameraStart')}
+        className={`${buttonClass} ${
+          cameraStream ? 'bg-[#FE5733]/10 border-[#FE5733] text-[#FE5733]' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-[#FE5733]'
+        }`}
+      >
+        <i className={`fa-solid ${cameraAvailable ? 'fa-video' : 'fa-video-slash'}`}></i>
+      </button>
+      <label
+        title={t('imageUpload')}
+        className={`${buttonClass} bg-slate-800 border-slate-700 text-slate-400 ${connected ? 'cursor-pointer hover:border-[#FE5733]' : 'opacity-30'}`}
+      >
+        <i className="fa-solid fa-image"></i>
+        <input
+          type="file"
+          accept="image/*"
+          disabled={!connected}
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) {
+              setUnreadable(false);
+              onImageFile(file).catch(() => setUnreadable(true));
+            }
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {cameraStream && (
+        <video ref={videoRef} autoPlay muted playsInline className="h-11 aspect-video rounded-xl border-2 border-[#FE5733]/40 object-cover bg-black" />
+      )}
+      {pendingImages.length > 0 && (
+        <div className="flex items-center gap-2 overflow-x-auto" title={t('imagesPending')}>
+          {pendingImages.map(image => (
+            <img key={image.capturedAt.getTime() + image.source} src={image.dataUrl} alt={t('imageAlt')} className="h-11 w-11 rounded-xl object-cover border border-white/10" />
+          ))}
+        </div>
+      )}
+      {unreadable && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{t('imageUnreadable')}</p>
+      )}
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -0,0 +1,50 @@
+
+import React from 'react';
+import { useI18n } from '../i18n/index.ts';
+
+interface ConsentDialogProps {
+  /** What happens to the transcript, which differs between the full app and the embedded widget. */
+  storageNotice: string;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+// Shown instead of starting a session until the caller has agreed to the current notice.
+const ConsentDialog: React.FC<ConsentDialogProps> = ({ storageNotice, onAccept, onDecline }) => {
+  const t = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-6" role="dialog" aria-modal="true" aria-labelledby="consent-title">
+      <div className="max-w-lg w-full bg-slate-900 rounded-3xl p-8 border border-slate-800 shadow-2xl">
+        <h2 id="consent-title" className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em] mb-6 flex items-center gap-3">
+          <i className="fa-solid fa-shield-halved"></i>
+          {t('consentTitle')}
+        </h2>
+        <ul className="space-y-4 text-xs font-bold text-slate-300 leading-relaxed mb-8">
+          <li className="flex gap-3"><i className="fa-solid fa-microphone text-slate-500 mt-0.5"></i>{t('consentStreaming')}</li>
+          <li className="flex gap-3"><i className="fa-solid fa-database text-slate-500 mt-0.5"></i>{storageNotice}</li>
+          <li className="flex gap-3"><i className="fa-solid fa-circle-dot text-slate-500 mt-0.5"></i>{t('consentRecording')}</li>
+        </ul>
+        <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
+          <button
+            type="button"
+            onClick={onDecline}
+            className="px-6 py-3 rounded-2xl border-2 border-slate-700 bg-slate-800 text-xs font-black uppercase tracking-widest text-slate-400 hover:border-[#FE5733] transition-all"
+          >
+            {t('consentDecline')}
+          </button>
+          <button
+            type="button"
+            onClick={onAccept}
+            autoFocus
+            className="px-6 py-3 rounded-2xl bg-gradient-to-r from-[#FE5733] to-[#981600] text-xs font-black uppercase tracking-widest text-white hover:scale-[1.02] active:scale-95 transition-all"
+          >
+            {t('consentAccept')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConsentDialog;
@@ -0,0 +1,133 @@
+
+import React, { useState } from 'react';
+import { Enquiry, EnquiryDraft } from '../types.ts';
+import { exportEnquiry, submitEnquiry } from '../utils/enquiry.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+const FIELDS: { key: keyof Enquiry; label: MessageKey; type?: string; wide?: boolean }[] = [
+  { key: 'contactName', label: 'enquiryName' },
+  { key: 'company', label: 'enquiryCompany' },
+  { key: 'email', label: 'enquiryEmail', type: 'email' },
+  { key: 'phone', label: 'enquiryPhone', type: 'tel' },
+  { key: 'wasteStream', label: 'enquiryWasteStream', wide: true },
+  { key: 'monthlyTonnage', label: 'enquiryTonnage', type: 'number' },
+  { key: 'location', label: 'enquiryLocation' },
+];
+
+type SendState = { status: 'idle' | 'sending' | 'sent' } | { status: 'error'; message: string };
+
+interface EnquiryFormProps {
+  draft: EnquiryDraft;
+  onClose: () => void;
+  /** Called with the enquiry as it was sent, after the team has received it. */
+  onSent?: (sent: EnquiryDraft) => void;
+}
+
+const EnquiryForm: React.FC<EnquiryFormProps> = ({ draft, onClose, onSent }) => {
+  const t = useI18n();
+  const [enquiry, setEnquiry] = useState<Enquiry>(draft.enquiry);
+  const [sendState, setSendState] = useState<SendState>({ status: 'idle' });
+
+  const current: EnquiryDraft = { ...draft, enquiry };
+  const canSend = enquiry.question.trim() !== '' && (enquiry.email.trim() !== '' || enquiry.phone.trim() !== '');
+
+  const update = (key: keyof Enquiry, value: string) => {
+    setEnquiry(prev => ({
+      ...prev,
+      [key]: key === 'monthlyTonnage' ? (value === '' ? null : Math.max(0, Number(value))) : value,
+    }));
+  };
+
+  const send = async () => {
+    setSendState({ status: 'sending' });
+    try {
+      await submitEnquiry(current);
+      setSendState({ status: 'sent' });
+      onSent?.(current);
+    } catch (err: any) {
+      setSendState({ status: 'error', message: err.message });
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-950/60 border border-slate-800 rounded-xl px-3 py-2 text-xs font-bold text-slate-200 focus:outline-none focus:border-[#FE5733]';
+
+  return (
+    <div className="bg-slate-900/60 rounded-[2.5rem] p-8 border border-[#FE5733]/30 shadow-2xl">
+      <div className="flex justify-between items-center mb-6">
+        <h4 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em] flex items-center gap-3">
+          <span className="w-1.5 h-1.5 bg-[#FE5733] rounded-full"></span>
+          {t('enquiryTitle')}
+        </h4>
+        <button onClick={onClose} className="text-slate-600 hover:text-[#FE5733] transition-colors">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {FIELDS.map(field => (
+          <label key={field.key} className={field.wide ? 'md:col-span-2' : ''}>
+            <span className="block text-[9px] text-slate-500 font-bold uppercase mb-1">{t(field.label)}</span>
+            <input
+              type={field.type || 'text'}
+              value={enquiry[field.key] ?? ''}
+              onChange={e => update(field.key, e.target.value)}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <label className="md:col-span-2">
+          <span className="block text-[9px] text-slate-500 font-bold uppercase mb-1">{t('enquiryQuestion')}</span>
+          <textarea value={enquiry.question} onChange={e => update('question', e.target.value)} rows={3} className={inputClass} />
+        </label>
+      </div>
+
+      {draft.transcriptExcerpt.length > 0 && (
+        <div className="mb-6">
+          <p className="text-[9px] text-slate-500 font-bold uppercase mb-2">{t('enquiryExcerpt')}</p>
+          <div className="space-y-2 max-h-[160px] overflow-y-auto pr-2 custom-scrollbar">
+            {draft.transcriptExcerpt.map((msg, i) => (
+              <p key={i} className={`text-xs font-bold leading-relaxed ${msg.role === 'user' ? 'text-slate-500' : 'text-white border-l-2 border-[#FE5733] pl-3'}`}>
+                {msg.text}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {sendState.status === 'error' && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500 mb-4">{sendState.message}</p>
+      )}
+      {sendState.status === 'sent' && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-emerald-500 mb-4">{t('enquirySent')}</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          onClick={send}
+          disabled={!canSend || sendState.status === 'sending' || sendState.status === 'sent'}
+          className="px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-[0.2em] bg-gradient-to-r from-[#FE5733] to-[#981600] text-white disabled:opacity-30 flex items-center gap-2"
+        >
+          <i className={`fa-solid ${sendState.status === 'sending' ? 'fa-spinner fa-spin' : 'fa-paper-plane'}`}></i>
+          {t('enquirySend')}
+        </button>
+        <button
+          onClick={() => exportEnquiry(current, 'eml')}
+          className="px-4 py-3 rounded-2xl border-2 border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:border-[#FE5733] transition-colors"
+        >
+          {t('enquiryEml')}
+        </button>
+        <button
+          onClick={() => exportEnquiry(current, 'json')}
+          className="px-4 py-3 rounded-2xl border-2 border-slate-700 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:border-[#FE5733] transition-colors"
+        >
+          JSON
+        </button>
+        {!canSend && (
+          <span className="text-[9px] font-bold uppercase tracking-widest text-slate-600">{t('enquiryIncomplete')}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EnquiryForm;
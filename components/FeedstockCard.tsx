@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { FeedstockAssessment, FeedstockVerdict } from '../types.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+const VERDICT_STYLES: Record<FeedstockVerdict, { label: MessageKey; icon: string; className: string }> = {
+  [FeedstockVerdict.ACCEPT]: { label: 'verdictAccepted', icon: 'fa-circle-check', className: 'border-emerald-500/30 text-emerald-500' },
+  [FeedstockVerdict.CONDITIONAL]: { label: 'verdictConditional', icon: 'fa-triangle-exclamation', className: 'border-amber-500/30 text-amber-500' },
+  [FeedstockVerdict.REJECT]: { label: 'verdictRejected', icon: 'fa-circle-xmark', className: 'border-red-500/30 text-red-500' },
+};
+
+const FeedstockCard: React.FC<{ assessment: FeedstockAssessment; onDismiss: () => void }> = ({ assessment, onDismiss }) => {
+  const t = useI18n();
+  const style = VERDICT_STYLES[assessment.verdict];
+  const { polymers, moisturePercent, organicPercent } = assessment.composition;
+
+  return (
+    <section className="bg-slate-900/60 rounded-3xl p-6 border border-slate-800 shadow-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em]">{t('verdictTitle')}</h2>
+        <button onClick={onDismiss} className="text-slate-600 hover:text-[#FE5733] transition-colors">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+      <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-[10px] font-black uppercase tracking-widest border mb-4 ${style.className}`}>
+        <i className={`fa-solid ${style.icon}`}></i>
+        {t(style.label)}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {Object.entries(polymers).map(([code, value]) => (
+          <span key={code} className="px-2 py-1 bg-slate-950/40 rounded-lg border border-white/5 text-[10px] font-bold text-slate-400">{code} {value}%</span>
+        ))}
+        {moisturePercent !== undefined && (
+          <span className="px-2 py-1 bg-slate-950/40 rounded-lg border border-white/5 text-[10px] font-bold text-slate-400">H2O {moisturePercent}%</span>
+        )}
+        {organicPercent !== undefined && (
+          <span className="px-2 py-1 bg-slate-950/40 rounded-lg border border-white/5 text-[10px] font-bold text-slate-400">{t('verdictOrganic', { value: organicPercent })}</span>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {assessment.reasons.map((reason, i) => (
+          <li key={i} className="text-xs font-bold text-slate-300 leading-relaxed">{reason}</li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default FeedstockCard;
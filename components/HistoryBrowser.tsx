@@ -0,0 +1,150 @@
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { ConsultationRecord } from '../types.ts';
+import { DEFAULT_LANGUAGE, RETENTION_DAYS_OPTIONS } from '../constants.ts';
+import { listConsultations, deleteConsultation, getRecording } from '../utils/historyStore.ts';
+import { exportConsultation, exportRecording, ExportFormat } from '../utils/exporters.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+const EXPORT_FORMATS: ExportFormat[] = ['md', 'json', 'srt', 'vtt'];
+
+const formatDuration = (record: ConsultationRecord) => {
+  const seconds = Math.round((record.endedAt.getTime() - record.startedAt.getTime()) / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s`;
+};
+
+interface HistoryBrowserProps {
+  /** Bumped by the parent whenever consultations have been saved or purged. */
+  refreshKey: number;
+  /** Set when the last consultation could not be stored. */
+  saveFailed?: boolean;
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+}
+
+const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ refreshKey, saveFailed, retentionDays, onRetentionChange }) => {
+  const t = useI18n();
+  const [records, setRecords] = useState<ConsultationRecord[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<MessageKey | null>(null);
+  const [actionError, setActionError] = useState<MessageKey | null>(null);
+
+  const refresh = useCallback(() => {
+    listConsultations()
+      .then(list => { setRecords(list); setLoadError(null); })
+      .catch(() => setLoadError('historyLoadFailed'));
+  }, []);
+
+  useEffect(refresh, [refresh, refreshKey]);
+
+  const downloadRecording = async (record: ConsultationRecord) => {
+    try {
+      const recording = await getRecording(record.id);
+      if (recording) exportRecording(record, recording);
+      setActionError(null);
+    } catch {
+      setActionError('historyRecordingFailed');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteConsultation(id);
+      if (selectedId === id) setSelectedId(null);
+      setActionError(null);
+    } catch {
+      setActionError('historyDeleteFailed');
+    }
+    refresh();
+  };
+
+  return (
+    <div className="bg-slate-900/40 rounded-[2.5rem] p-8 border border-slate-800 shadow-xl">
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <h4 className="text-[10px] font-black text-slate-600 uppercase tracking-[0.2em] flex items-center gap-3">
+          <span className="w-1.5 h-1.5 bg-[#FE5733] rounded-full"></span>
+          {t('historyTitle')}
+        </h4>
+        <label className="flex items-center gap-2 text-[9px] font-black uppercase tracking-widest text-slate-600">
+          {t('historyKeepFor')}
+          <select
+            value={retentionDays}
+            onChange={e => onRetentionChange(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-[9px] font-black uppercase tracking-widest text-slate-400 focus:outline-none focus:border-[#FE5733]"
+          >
+            {RETENTION_DAYS_OPTIONS.map(days => <option key={days} value={days}>{t('historyDays', { days })}</option>)}
+          </select>
+        </label>
+      </div>
+      {saveFailed && !loadError && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500 mb-4">{t('historySaveFailed')}</p>
+      )}
+      {actionError && !loadError && (
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500 mb-4">{t(actionError)}</p>
+      )}
+      {loadError ? (
+        <p className="text-[10px] font-black uppercase tracking-widest text-red-500">{t(loadError)}</p>
+      ) : records.length === 0 ? (
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-600">{t('historyEmpty')}</p>
+      ) : (
+        <div className="space-y-3 max-h-[400px] overflow-y-auto pr-2 custom-scrollbar">
+          {records.map(record => (
+            <div key={record.id} className="bg-slate-950/30 rounded-2xl border border-white/5">
+              <div className="flex items-center justify-between gap-3 p-4">
+                <button
+                  onClick={() => setSelectedId(selectedId === record.id ? null : record.id)}
+                  className="flex-1 text-left"
+                >
+                  <p className="text-xs font-bold text-slate-300">{record.startedAt.toLocaleString()}</p>
+                  <p className="text-[10px] font-bold text-slate-600 uppercase tracking-widest mt-1">
+                    {formatDuration(record)} &middot; {t('historyMessages', { count: record.messages.length })} &middot; {record.metadata.language ?? DEFAULT_LANGUAGE}
+                  </p>
+                </button>
+                <div className="flex items-center gap-1">
+                  {EXPORT_FORMATS.map(format => (
+                    <button
+                      key={format}
+                      onClick={() => exportConsultation(record, format)}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[9px] font-black uppercase text-slate-400 hover:border-[#FE5733] hover:text-[#FE5733] transition-colors"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                  {record.recording && (
+                    <button
+                      onClick={() => downloadRecording(record)}
+                      className="px-2 py-1 rounded-lg border border-slate-700 text-[9px] font-black uppercase text-slate-400 hover:border-[#FE5733] hover:text-[#FE5733] transition-colors flex items-center gap-1"
+                    >
+                      <i className="fa-solid fa-file-audio"></i>
+                      wav
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(record.id)}
+                    className="w-7 h-7 rounded-lg flex items-center justify-center text-slate-600 hover:text-red-500 transition-colors"
+                  >
+                    <i className="fa-solid fa-trash text-xs"></i>
+                  </button>
+                </div>
+              </div>
+              {selectedId === record.id && (
+                <div className="px-4 pb-4 space-y-2">
+                  {record.messages.map((msg, i) => (
+                    <p key={i} className={`text-xs font-bold leading-relaxed ${msg.role === 'user' ? 'text-slate-500' : 'text-white border-l-2 border-[#FE5733] pl-3'}`}>
+                      {msg.images?.map((image, j) => (
+                        <img key={j} src={image.dataUrl} alt="" className="inline-block h-10 mr-2 mb-1 rounded-lg object-cover border border-white/10" />
+                      ))}
+                      {msg.text}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryBrowser;
@@ -0,0 +1,120 @@
+
+import React, { useMemo } from 'react';
+import { DisposalRoute, ImpactInput } from '../types.ts';
+import { IMPACT_ASSUMPTIONS } from '../knowledge/impact.ts';
+import { calculateImpact, isProvisional } from '../utils/impact.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+const PRODUCTS: { key: 'oil' | 'gas' | 'char' | 'losses'; label: MessageKey; className: string }[] = [
+  { key: 'oil', label: 'impactOil', className: 'bg-[#FE5733]' },
+  { key: 'gas', label: 'impactGas', className: 'bg-amber-500' },
+  { key: 'char', label: 'impactChar', className: 'bg-slate-500' },
+  { key: 'losses', label: 'impactLosses', className: 'bg-slate-700' },
+];
+
+const ROUTE_LABELS: Record<DisposalRoute, MessageKey> = {
+  landfill: 'impactRouteLandfill',
+  incineration: 'impactRouteIncineration',
+  pyrolysis: 'impactRoutePyrolysis',
+};
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+interface ImpactCalculatorProps {
+  input: ImpactInput;
+  onChange: (input: ImpactInput) => void;
+  /** Set while the figures shown are the ones the agent last quoted. */
+  quoted: boolean;
+}
+
+const ImpactCalculator: React.FC<ImpactCalculatorProps> = ({ input, onChange, quoted }) => {
+  const t = useI18n();
+  const result = useMemo(() => calculateImpact(input), [input]);
+  const { products, savings } = result;
+  const fieldClass = 'w-full bg-slate-950/40 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-slate-300 focus:outline-none focus:border-[#FE5733]';
+  const provisional = [...IMPACT_ASSUMPTIONS.yields, ...Object.values(IMPACT_ASSUMPTIONS.emissions), IMPACT_ASSUMPTIONS.oilDisplacement].some(isProvisional);
+
+  const row = (label: MessageKey, value: number, className = 'text-slate-300') => (
+    <div className="flex justify-between items-center text-xs font-bold">
+      <span className="text-slate-500">{t(label)}</span>
+      <span className={className}>{t('impactCo2Value', { value: format(value) })}</span>
+    </div>
+  );
+
+  return (
+    <section className="bg-slate-900/60 rounded-3xl p-6 border border-slate-800 shadow-2xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em]">{t('impactTitle')}</h2>
+        {quoted && (
+          <span className="px-2 py-0.5 text-[9px] font-black uppercase rounded border bg-emerald-500/10 text-emerald-500 border-emerald-500/20">
+            {t('impactQuoted')}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-5">
+        <label className="col-span-2">
+          <span className="block text-[9px] text-slate-500 font-bold uppercase mb-1">{t('impactFeedstock')}</span>
+          <select value={input.feedstock} onChange={e => onChange({ ...input, feedstock: e.target.value })} className={fieldClass}>
+            {IMPACT_ASSUMPTIONS.yields.map(y => <option key={y.feedstock} value={y.feedstock}>{y.feedstock}</option>)}
+          </select>
+        </label>
+        <label>
+          <span className="block text-[9px] text-slate-500 font-bold uppercase mb-1">{t('impactTonnes')}</span>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={input.tonnes || ''}
+            onChange={e => onChange({ ...input, tonnes: Math.max(0, parseFloat(e.target.value) || 0) })}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+
+      <p className="text-[9px] text-slate-500 font-bold uppercase mb-2">{t('impactProducts')}</p>
+      <div className="flex h-2 w-full bg-slate-800 rounded-full overflow-hidden mb-3">
+        {PRODUCTS.map(p => (
+          <div key={p.key} className={p.className} style={{ width: `${input.tonnes > 0 ? (products[p.key] / input.tonnes) * 100 : 0}%` }}></div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-5">
+        {PRODUCTS.map(p => (
+          <div key={p.key} className="flex items-center gap-2 text-xs font-bold">
+            <span className={`w-1.5 h-1.5 rounded-full ${p.className}`}></span>
+            <span className="text-slate-500">{t(p.label)}</span>
+            <span className="ml-auto text-slate-300">{t('impactTonnesValue', { value: format(products[p.key]) })}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[9px] text-slate-500 font-bold uppercase mb-2">{t('impactCarbon')}</p>
+      <div className="space-y-1 mb-3">
+        {row('impactPyrolysis', result.pyrolysisEmissions)}
+        {row('impactDisplacement', result.displacementCredit)}
+      </div>
+      <div className="space-y-1 pt-3 border-t border-white/5">
+        {row('impactVsIncineration', savings.incineration.netSaving, savings.incineration.netSaving >= 0 ? 'text-emerald-500' : 'text-red-500')}
+        {row('impactVsLandfill', savings.landfill.netSaving, savings.landfill.netSaving >= 0 ? 'text-emerald-500' : 'text-red-500')}
+      </div>
+
+      <details className="mt-4 text-[10px] text-slate-600">
+        <summary className="cursor-pointer font-black uppercase tracking-widest hover:text-[#FE5733]">
+          {t('impactAssumptions', { version: IMPACT_ASSUMPTIONS.version, updated: IMPACT_ASSUMPTIONS.updated })}
+          {provisional && <span className="ml-2 text-amber-500">{t('impactProvisional')}</span>}
+        </summary>
+        <ul className="mt-2 space-y-1 leading-relaxed">
+          {IMPACT_ASSUMPTIONS.yields.filter(y => y.feedstock === input.feedstock).map(y => (
+            <li key={y.feedstock}>{t('impactOil')} {Math.round(y.oil * 100)}% · {t('impactGas')} {Math.round(y.gas * 100)}% · {t('impactChar')} {Math.round(y.char * 100)}%: {y.source}</li>
+          ))}
+          {Object.entries(IMPACT_ASSUMPTIONS.emissions).map(([route, factor]) => (
+            <li key={route}>{t(ROUTE_LABELS[route as DisposalRoute])}: {t('impactFactorValue', { value: factor.value })}: {factor.source}</li>
+          ))}
+          <li>{t('impactOil')}: {t('impactFactorValue', { value: `−${IMPACT_ASSUMPTIONS.oilDisplacement.value}` })}: {IMPACT_ASSUMPTIONS.oilDisplacement.source}</li>
+        </ul>
+      </details>
+    </section>
+  );
+};
+
+export default ImpactCalculator;
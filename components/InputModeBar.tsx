@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { InputMode } from '../types.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+const MODES: { mode: InputMode; label: MessageKey; icon: string }[] = [
+  { mode: InputMode.ALWAYS_ON, label: 'modeAlwaysOn', icon: 'fa-tower-broadcast' },
+  { mode: InputMode.PUSH_TO_TALK, label: 'modePushToTalk', icon: 'fa-hand-pointer' },
+  { mode: InputMode.VOICE_GATE, label: 'modeVoiceGate', icon: 'fa-wave-square' },
+];
+
+interface InputModeBarProps {
+  mode: InputMode;
+  onChange: (mode: InputMode) => void;
+  active: boolean;
+  micAvailable: boolean;
+  isMuted: boolean;
+  isTransmitting: boolean;
+}
+
+const describeState = ({ mode, active, micAvailable, isMuted, isTransmitting }: InputModeBarProps): MessageKey => {
+  if (!micAvailable) return 'inputNoMic';
+  if (!active) return 'inputIdle';
+  if (isMuted && mode !== InputMode.PUSH_TO_TALK) return 'inputMuted';
+  if (mode === InputMode.PUSH_TO_TALK) return isTransmitting ? 'inputTransmitting' : 'inputHoldToTalk';
+  if (mode === InputMode.VOICE_GATE) return isTransmitting ? 'inputSpeechDetected' : 'inputWaiting';
+  return 'inputStreaming';
+};
+
+const InputModeBar: React.FC<InputModeBarProps> = (props) => {
+  const { mode, onChange, active, isTransmitting } = props;
+  const t = useI18n();
+
+  return (
+    <div className="px-8 md:px-10 pb-6 bg-slate-900/90 flex flex-col md:flex-row items-center justify-between gap-4">
+      <div className="flex bg-slate-950/60 rounded-xl p-1 border border-slate-800">
+        {MODES.map(m => (
+          <button
+            key={m.mode}
+            onClick={() => onChange(m.mode)}
+            className={`px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest flex items-center gap-2 transition-colors ${
+              mode === m.mode ? 'bg-[#FE5733] text-white' : 'text-slate-500 hover:text-slate-300'
+            }`}
+          >
+            <i className={`fa-solid ${m.icon}`}></i>
+            {t(m.label)}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+        <span className={`w-2 h-2 rounded-full ${active && isTransmitting ? 'bg-emerald-500 animate-pulse' : 'bg-slate-700'}`}></span>
+        {t(describeState(props))}
+      </div>
+    </div>
+  );
+};
+
+export default InputModeBar;
@@ -0,0 +1,97 @@
+
+import React from 'react';
+import { AlarmLevel, MetricDefinition, MetricReading, TelemetryStatus } from '../types.ts';
+import { PLANT_METRICS } from '../constants.ts';
+import { evaluateAlarm, isStale } from '../utils/telemetry.ts';
+import { TelemetryState } from '../hooks/useTelemetry.ts';
+import { MessageKey, useI18n } from '../i18n/index.ts';
+
+// `PLANT_METRICS` keeps the English labels for the agent's telemetry tool.
+const METRIC_LABELS: Record<string, MessageKey> = {
+  conversion: 'metricConversion',
+  reactorTemp: 'metricReactorTemp',
+  feedRate: 'metricFeedRate',
+  pressure: 'metricPressure',
+};
+
+const ALARM_LABELS: Record<AlarmLevel, MessageKey> = {
+  LOW: 'alarmLow',
+  HIGH: 'alarmHigh',
+};
+
+const Sparkline: React.FC<{ readings: MetricReading[]; alarm: boolean }> = ({ readings, alarm }) => {
+  if (readings.length < 2) return <div className="h-6" />;
+  const values = readings.map(r => r.value);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const points = values
+    .map((v, i) => `${(i / (values.length - 1)) * 100},${22 - ((v - min) / range) * 20}`)
+    .join(' ');
+  return (
+    <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="w-full h-6 mt-2">
+      <polyline points={points} fill="none" stroke={alarm ? '#ef4444' : '#FE5733'} strokeWidth="2" vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+const MetricTile: React.FC<{ metric: MetricDefinition; readings: MetricReading[]; now: number }> = ({ metric, readings, now }) => {
+  const t = useI18n();
+  const latest = readings[readings.length - 1];
+  const stale = isStale(latest, now);
+  const alarm = latest ? evaluateAlarm(metric, latest.value) : null;
+  const decimals = metric.nominal < 10 ? 2 : 1;
+
+  return (
+    <div className={`bg-slate-950/40 p-3 rounded-2xl border ${alarm ? 'border-red-500/40' : 'border-white/5'}`}>
+      <div className="flex justify-between items-center mb-1">
+        <p className="text-[9px] text-slate-500 font-bold uppercase">{METRIC_LABELS[metric.id] ? t(METRIC_LABELS[metric.id]) : metric.label}</p>
+        {alarm && <span className="text-[8px] font-black text-red-500 uppercase">{t(ALARM_LABELS[alarm])}</span>}
+      </div>
+      <p className={`text-lg font-black ${stale ? 'text-slate-600' : alarm ? 'text-red-500' : 'text-white'}`}>
+        {latest ? latest.value.toFixed(decimals) : '--'}
+        <span className="text-[10px] text-slate-500 ml-1">{metric.unit}</span>
+      </p>
+      {latest && stale && (
+        <p className="text-[8px] font-black text-amber-500 uppercase">{t('readingAge', { seconds: Math.round((now - latest.timestamp.getTime()) / 1000) })}</p>
+      )}
+      <Sparkline readings={readings} alarm={!!alarm} />
+    </div>
+  );
+};
+
+const PlantMonitor: React.FC<{ telemetry: TelemetryState }> = ({ telemetry }) => {
+  const t = useI18n();
+  const { status, history, latest, now } = telemetry;
+  const anyFresh = PLANT_METRICS.some(m => !isStale(latest[m.id], now));
+  const conversion = latest.conversion?.value ?? 0;
+
+  const badge: { label: MessageKey; className: string } =
+    status === TelemetryStatus.OFFLINE ? { label: 'plantOffline', className: 'bg-red-500/10 text-red-500 border-red-500/20' }
+    : status === TelemetryStatus.CONNECTING ? { label: 'plantConnecting', className: 'bg-slate-500/10 text-slate-400 border-slate-500/20' }
+    : !anyFresh ? { label: 'plantStale', className: 'bg-amber-500/10 text-amber-500 border-amber-500/20' }
+    : status === TelemetryStatus.SIMULATED ? { label: 'plantSimulated', className: 'bg-sky-500/10 text-sky-400 border-sky-500/20' }
+    : { label: 'plantLive', className: 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20 animate-pulse' };
+
+  return (
+    <section className="bg-slate-900/60 rounded-3xl p-6 border border-slate-800 shadow-2xl relative overflow-hidden">
+      <h2 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em] mb-4">{t('plantTitle', { plant: 'WLPP' })}</h2>
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-sm text-slate-400 font-bold">{t('plantStream')}</span>
+        <span className={`px-2 py-0.5 text-[10px] font-black rounded border ${badge.className}`}>{t(badge.label)}</span>
+      </div>
+      <div className="h-2 w-full bg-slate-800 rounded-full overflow-hidden mb-4">
+        <div
+          className="h-full bg-gradient-to-r from-[#FE5733] to-emerald-500 rounded-full shadow-[0_0_10px_rgba(16,185,129,0.3)] transition-all duration-700"
+          style={{ width: `${Math.min(100, Math.max(0, conversion))}%` }}
+        ></div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {PLANT_METRICS.map(metric => (
+          <MetricTile key={metric.id} metric={metric} readings={history[metric.id] || []} now={now} />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default PlantMonitor;
@@ -0,0 +1,229 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { SessionEndReason, SessionMetrics } from '../types.ts';
+import { PROMPT_VERSION } from '../constants.ts';
+import { clearMetrics, listMetrics } from '../utils/historyStore.ts';
+import { dailyVolume, exportMetrics, latencyHistogram, summarizeByPromptVersion, summarizeMetrics } from '../utils/analytics.ts';
+import { downloadFile } from '../utils/exporters.ts';
+
+// An internal page for the team tuning the assistant, so its labels are not in the i18n catalogs.
+
+const DAYS_SHOWN = 14;
+const ALL_VERSIONS = '';
+
+const END_REASONS: { reason: SessionEndReason; label: string; className: string }[] = [
+  { reason: 'stopped', label: 'Stopped', className: 'bg-emerald-500' },
+  { reason: 'expired', label: 'Expired', className: 'bg-amber-500' },
+  { reason: 'connection_lost', label: 'Connection lost', className: 'bg-red-500' },
+  { reason: 'connect_failed', label: 'Connect failed', className: 'bg-red-700' },
+  { reason: 'start_failed', label: 'Start failed', className: 'bg-red-900' },
+];
+
+const formatMs = (ms?: number) => ms === undefined ? '–' : `${(ms / 1000).toFixed(2)} s`;
+const formatPercent = (rate?: number) => rate === undefined ? '–' : `${Math.round(rate * 100)}%`;
+const formatNumber = (value?: number) => value === undefined ? '–' : value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+const formatDuration = (seconds?: number) => {
+  if (seconds === undefined) return '–';
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+const Panel: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="bg-slate-900/60 rounded-3xl p-6 border border-slate-800 shadow-2xl">
+    <h2 className="text-[10px] font-black text-[#FE5733] uppercase tracking-[0.2em] mb-4">{title}</h2>
+    {children}
+  </section>
+);
+
+const Tile: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-900/60 rounded-2xl p-4 border border-slate-800">
+    <p className="text-[9px] text-slate-500 font-bold uppercase tracking-widest mb-1">{label}</p>
+    <p className="text-xl font-black text-white">{value}</p>
+  </div>
+);
+
+/** Vertical bars scaled to the tallest one; `highlight` is drawn over the bottom of each bar. */
+const BarChart: React.FC<{ bars: { label: string; value: number; highlight?: number; title: string }[] }> = ({ bars }) => {
+  const max = Math.max(1, ...bars.map(b => b.value));
+  return (
+    <div className="flex items-end gap-1 h-32">
+      {bars.map(bar => (
+        <div key={bar.label} className="flex-1 flex flex-col items-center gap-1 h-full" title={bar.title}>
+          <div className="w-full flex-1 flex flex-col justify-end">
+            <div className="w-full bg-[#FE5733]/70 rounded-t flex flex-col justify-end overflow-hidden" style={{ height: `${(bar.value / max) * 100}%` }}>
+              {!!bar.highlight && <div className="w-full bg-red-500" style={{ height: `${(bar.highlight / bar.value) * 100}%` }}></div>}
+            </div>
+          </div>
+          <span className="text-[8px] text-slate-600 font-bold">{bar.label}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Aggregates and charts over the quality metrics stored in this browser, with a JSON
+ * export so prompt versions can be compared across machines.
+ */
+const QualityDashboard: React.FC = () => {
+  const [sessions, setSessions] = useState<SessionMetrics[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(ALL_VERSIONS);
+
+  useEffect(() => {
+    listMetrics().then(setSessions, err => setError(err?.message ?? String(err)));
+  }, []);
+
+  const all = useMemo(() => sessions ?? [], [sessions]);
+  const shown = useMemo(() => version ? all.filter(s => s.promptVersion === version) : all, [all, version]);
+  const summary = useMemo(() => summarizeMetrics(shown), [shown]);
+  const byVersion = useMemo(() => summarizeByPromptVersion(all), [all]);
+  const volume = useMemo(() => dailyVolume(shown, DAYS_SHOWN), [shown]);
+  const histogram = useMemo(() => latencyHistogram(shown.flatMap(s => s.firstReplyLatenciesMs)), [shown]);
+
+  const clear = async () => {
+    if (!window.confirm('Delete all stored quality metrics from this browser?')) return;
+    await clearMetrics();
+    setSessions([]);
+  };
+
+  const buttonClass = 'px-4 py-2 rounded-xl border-2 border-slate-700 bg-slate-800 text-[10px] font-black uppercase tracking-widest text-slate-300 hover:border-[#FE5733] disabled:opacity-30';
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-slate-200 p-6 md:p-10">
+      <div className="max-w-7xl mx-auto flex flex-col gap-6">
+        <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-black text-white tracking-tighter">Conversation quality</h1>
+            <p className="text-[10px] text-slate-500 font-bold uppercase tracking-[0.2em] mt-1">
+              Current prompt {PROMPT_VERSION} · stored in this browser only
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={version}
+              onChange={e => setVersion(e.target.value)}
+              className="bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 focus:outline-none focus:border-[#FE5733]"
+            >
+              <option value={ALL_VERSIONS}>All prompt versions</option>
+              {byVersion.map(v => <option key={v.promptVersion} value={v.promptVersion}>{v.promptVersion}</option>)}
+            </select>
+            <button
+              type="button"
+              disabled={all.length === 0}
+              onClick={() => downloadFile(exportMetrics(all), `itero-quality-${new Date().toISOString().slice(0, 10)}.json`, 'application/json')}
+              className={buttonClass}
+            >
+              <i className="fa-solid fa-download mr-2"></i>Export JSON
+            </button>
+            <button type="button" disabled={all.length === 0} onClick={clear} className={buttonClass}>
+              <i className="fa-solid fa-trash mr-2"></i>Clear
+            </button>
+            <a href="#" className={buttonClass}>
+              <i className="fa-solid fa-arrow-left mr-2"></i>Assistant
+            </a>
+          </div>
+        </header>
+
+        {error && <p className="text-xs font-bold text-red-500">Could not read stored metrics: {error}</p>}
+        {sessions && sessions.length === 0 && (
+          <p className="text-xs font-bold text-slate-500">No sessions recorded yet. Metrics are stored when a consultation ends.</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+          <Tile label="Sessions" value={String(summary.sessions)} />
+          <Tile label="Avg duration" value={formatDuration(summary.averageDurationSeconds)} />
+          <Tile label="Avg turns" value={formatNumber(summary.averageTurns)} />
+          <Tile label="Median first audio" value={formatMs(summary.medianLatencyMs)} />
+          <Tile label="P90 first audio" value={formatMs(summary.p90LatencyMs)} />
+          <Tile label="Interruptions / turn" value={formatPercent(summary.interruptionRate)} />
+          <Tile label="Deflections / turn" value={formatPercent(summary.deflectionRate)} />
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Panel title={`Sessions, last ${DAYS_SHOWN} days (failures in red)`}>
+            <BarChart bars={volume.map(v => ({
+              label: v.day.slice(8),
+              value: v.sessions,
+              highlight: v.failures,
+              title: `${v.day}: ${v.sessions} sessions, ${v.failures} failed`,
+            }))} />
+          </Panel>
+          <Panel title="Time to first audio">
+            <BarChart bars={histogram.map(b => ({
+              label: b.toMs === undefined ? `${b.fromMs / 1000}s+` : `${b.fromMs / 1000}`,
+              value: b.count,
+              title: `${b.toMs === undefined ? `${b.fromMs} ms or more` : `${b.fromMs}–${b.toMs} ms`}: ${b.count} replies`,
+            }))} />
+          </Panel>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <Panel title="How sessions ended">
+            <div className="space-y-2">
+              {END_REASONS.map(({ reason, label, className }) => {
+                const count = summary.endReasons[reason] ?? 0;
+                return (
+                  <div key={reason} className="text-xs font-bold">
+                    <div className="flex justify-between mb-1">
+                      <span className="text-slate-500">{label}</span>
+                      <span className="text-slate-300">{count}</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-slate-800 rounded-full overflow-hidden">
+                      <div className={`h-full ${className}`} style={{ width: `${summary.sessions ? (count / summary.sessions) * 100 : 0}%` }}></div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </Panel>
+
+          <div className="lg:col-span-2">
+            <Panel title="By prompt version">
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-xs font-bold">
+                  <thead className="text-[9px] text-slate-500 uppercase tracking-widest">
+                    <tr>
+                      <th className="py-2 pr-4">Version</th>
+                      <th className="py-2 pr-4">First seen</th>
+                      <th className="py-2 pr-4">Sessions</th>
+                      <th className="py-2 pr-4">Median first audio</th>
+                      <th className="py-2 pr-4">Interruptions</th>
+                      <th className="py-2 pr-4">Deflections</th>
+                      <th className="py-2">Failures</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-300">
+                    {byVersion.map(({ promptVersion, firstSeen, summary: s }) => (
+                      <tr key={promptVersion} className="border-t border-white/5">
+                        <td className={`py-2 pr-4 font-mono ${promptVersion === PROMPT_VERSION ? 'text-[#FE5733]' : ''}`}>{promptVersion}</td>
+                        <td className="py-2 pr-4">{firstSeen.toLocaleDateString()}</td>
+                        <td className="py-2 pr-4">{s.sessions}</td>
+                        <td className="py-2 pr-4">{formatMs(s.medianLatencyMs)}</td>
+                        <td className="py-2 pr-4">{formatPercent(s.interruptionRate)}</td>
+                        <td className="py-2 pr-4">{formatPercent(s.deflectionRate)}</td>
+                        <td className="py-2">{formatPercent(s.failureRate)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Panel>
+          </div>
+        </div>
+
+        <Panel title="Recent errors">
+          <ul className="space-y-1 text-[11px] font-mono text-slate-400">
+            {shown.filter(s => s.errors.length > 0).slice(-10).reverse().map(s => (
+              <li key={s.id}>
+                <span className="text-slate-600">{s.startedAt.toLocaleString()}</span> {s.endReason}: {s.errors.join(' · ')}
+              </li>
+            ))}
+          </ul>
+        </Panel>
+      </div>
+    </div>
+  );
+};
+
+export default QualityDashboard;
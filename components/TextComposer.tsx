@@ -0,0 +1,58 @@
+
+import React, { useState } from 'react';
+import { useI18n } from '../i18n/index.ts';
+
+interface TextComposerProps {
+  onSend: (text: string) => void;
+  connected: boolean;
+  sessionActive: boolean;
+  voiceReplies: boolean;
+  onVoiceRepliesChange: (voiceReplies: boolean) => void;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ onSend, connected, sessionActive, voiceReplies, onVoiceRepliesChange }) => {
+  const t = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !connected) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <form onSubmit={submit} className="px-8 md:px-10 pb-6 flex items-center gap-3">
+      {/* The reply modality is fixed when the session opens. */}
+      <button
+        type="button"
+        onClick={() => onVoiceRepliesChange(!voiceReplies)}
+        disabled={sessionActive}
+        title={t(voiceReplies ? 'spokenReplies' : 'textReplies')}
+        className={`w-11 h-11 shrink-0 rounded-xl flex items-center justify-center border-2 transition-all ${
+          voiceReplies ? 'bg-slate-800 border-slate-700 text-slate-400' : 'bg-[#FE5733]/10 border-[#FE5733] text-[#FE5733]'
+        } disabled:opacity-30`}
+      >
+        <i className={`fa-solid ${voiceReplies ? 'fa-volume-high' : 'fa-comment-dots'}`}></i>
+      </button>
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        disabled={!connected}
+        placeholder={t(connected ? 'composerPlaceholder' : 'composerIdle')}
+        className="flex-1 bg-slate-950/60 border border-slate-800 rounded-xl px-4 py-3 text-xs font-bold text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-[#FE5733] disabled:opacity-40"
+      />
+      <button
+        type="submit"
+        disabled={!connected || !draft.trim()}
+        title={t('send')}
+        className="w-11 h-11 shrink-0 rounded-xl flex items-center justify-center bg-gradient-to-r from-[#FE5733] to-[#981600] text-white disabled:opacity-30"
+      >
+        <i className="fa-solid fa-paper-plane"></i>
+      </button>
+    </form>
+  );
+};
+
+export default TextComposer;
@@ -1,26 +1,116 @@
 
-export const ITERO_SYSTEM_INSTRUCTION = `
-You are the official Itero Technologies Customer Service Voice Assistant. Your goal is to provide expert information about Itero's advanced chemical recycling technology.
-
-Key Information about Itero Technologies:
-- **What we do:** Itero uses a patented modular chemical recycling (pyrolysis) process to transform plastic waste that cannot be mechanically recycled into high-quality chemical feedstock (Itero-Oil).
-- **The Mission:** To enable a circular economy for plastics by diverting waste from landfill and incineration and providing sustainable raw materials for the petrochemical industry to create new, virgin-quality plastics.
-- **WLPP (West London Pilot Plant):** This is our state-of-the-art testing facility. It is used for R&D, feed testing for various waste streams, and proving our modular technology at scale.
-- **Mixed Plastic Waste:** We primarily process polyolefins (PE - Polyethylene, PP - Polypropylene) and PS (Polystyrene).
-- **What we DON'T process:** We cannot process high concentrations of PVC (Polyvinyl Chloride), PET (Polyethylene Terephthalate) in large quantities, or waste with high moisture/organic content.
-- **Tone:** Professional, innovative, environmentally conscious, and helpful.
-
-Guidelines:
-1. Speak clearly and concisely.
-2. If a user asks a complex technical question you can't answer, suggest they contact the technical team at info@itero-tech.com.
-3. Emphasize that chemical recycling is complementary to mechanical recycling.
-4. Always prioritize safety and environmental benefits.
-`;
-
-export const WASTE_TYPES = [
-  "LDPE (Low-Density Polyethylene)",
-  "HDPE (High-Density Polyethylene)",
-  "PP (Polypropylene)",
-  "PS (Polystyrene)",
-  "Mixed Polyolefins"
+import { BackoffOptions, FrameCaptureOptions, LanguageCode, LanguageOption, MetricDefinition, PolymerCode, SpeakingDetectionOptions, VoiceGateOptions } from './types.ts';
+import { ITERO_KNOWLEDGE } from './knowledge/itero.ts';
+import { IMPACT_ASSUMPTIONS } from './knowledge/impact.ts';
+import { compileSystemInstruction, contactFor, promptVersion } from './utils/knowledge.ts';
+
+export const KNOWLEDGE_VERSION = ITERO_KNOWLEDGE.version;
+export const IMPACT_VERSION = IMPACT_ASSUMPTIONS.version;
+
+export const ITERO_SYSTEM_INSTRUCTION = compileSystemInstruction(ITERO_KNOWLEDGE, IMPACT_ASSUMPTIONS);
+export const PROMPT_VERSION = promptVersion(ITERO_KNOWLEDGE, ITERO_SYSTEM_INSTRUCTION);
+
+export const WASTE_TYPES = ITERO_KNOWLEDGE.wasteTypes.accepted.map(f => f.name);
+// A knowledge base without a technical contact is refused by validation (the build's knowledge
+// check); the empty fallbacks only keep this module importable so the check can say so.
+export const ENQUIRY_EMAIL = (contactFor(ITERO_KNOWLEDGE, 'sales') ?? contactFor(ITERO_KNOWLEDGE, 'technical'))?.email ?? '';
+export const ENQUIRY_EXCERPT_LENGTH = 6;
+// The address the prompt tells the agent to hand hard technical questions to; replies naming it count as deflections.
+export const DEFLECTION_EMAIL = contactFor(ITERO_KNOWLEDGE, 'technical')?.email ?? '';
+
+export const REJECTED_WASTE_TYPES = ITERO_KNOWLEDGE.wasteTypes.rejected.map(f => f.condition ? `${f.name} ${f.condition}` : f.name);
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+// Native-audio models only reply with audio; text-only replies need a half-cascade Live model.
+export const LIVE_TEXT_MODEL = 'gemini-live-2.5-flash-preview';
+
+// Prebuilt Live voices are multilingual, so the voice is picked independently of the language.
+export const VOICES = ['Kore', 'Aoede', 'Leda', 'Zephyr', 'Puck', 'Charon', 'Fenrir', 'Orus'];
+export const DEFAULT_VOICE = 'Kore';
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en-GB', label: 'English', name: 'British English' },
+  { code: 'de-DE', label: 'Deutsch', name: 'German' },
+  { code: 'fr-FR', label: 'Français', name: 'French' },
+  { code: 'es-ES', label: 'Español', name: 'Spanish' },
+  { code: 'it-IT', label: 'Italiano', name: 'Italian' },
+  { code: 'nl-NL', label: 'Nederlands', name: 'Dutch' },
+];
+export const DEFAULT_LANGUAGE: LanguageCode = 'en-GB';
+
+// Bump when the consent notice changes so everyone is asked again.
+export const PRIVACY_NOTICE_VERSION = '1.0.0';
+// How long stored consultations and their recordings are kept before being purged.
+export const RETENTION_DAYS_OPTIONS = [7, 30, 90, 365];
+export const DEFAULT_RETENTION_DAYS = 30;
+export const RETENTION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// Itero's own addresses are not personal data and are left readable in stored transcripts.
+export const COMPANY_EMAILS = ITERO_KNOWLEDGE.contacts.map(c => c.email);
+
+// Host pages describe themselves to an embedded assistant in a line or two, not a document.
+export const WIDGET_CONTEXT_MAX_LENGTH = 200;
+
+// Acceptance limits for the WLPP feed line. Values are percentages by weight;
+// anything between the accept and reject limits needs a feed test first.
+export const FEEDSTOCK_SPEC = {
+  targetPolymers: ['PE', 'PP', 'PS'] as PolymerCode[],
+  targetShare: { accept: 90, reject: 75 },
+  pvc: { accept: 0.5, reject: 1 },
+  pet: { accept: 5, reject: 10 },
+  moisture: { accept: 5, reject: 10 },
+  organic: { accept: 2, reject: 5 },
+  compositionTolerance: 5,
+  rejectedContaminants: ['metal', 'glass', 'food', 'medical', 'hazardous', 'battery', 'batteries'],
+};
+
+export const RECONNECT_BACKOFF: BackoffOptions = {
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  maxAttempts: 6,
+};
+
+// The Live API expects 16 kHz mono PCM; capture resamples to this rate and
+// ships 100 ms chunks.
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_CHUNK_SIZE = 1600;
+// Recordings use the model's 24 kHz output rate, so only the caller channel is resampled.
+export const RECORDING_SAMPLE_RATE = 24000;
+
+// The Live API looks at video at about one frame per second, so sending more only costs bandwidth.
+export const CAMERA_CAPTURE: FrameCaptureOptions = {
+  intervalMs: 1000,
+  maxDimension: 768,
+  quality: 0.7,
+};
+
+// WLPP metrics shown on the monitoring panel. `low`/`high` are alarm thresholds.
+export const PLANT_METRICS: MetricDefinition[] = [
+  { id: 'conversion', label: 'Conversion', unit: '%', nominal: 84, low: 78 },
+  { id: 'reactorTemp', label: 'Temp (C)', unit: '°C', nominal: 420, low: 390, high: 450 },
+  { id: 'feedRate', label: 'Feed Rate', unit: 'kg/h', nominal: 120, low: 80, high: 150 },
+  { id: 'pressure', label: 'Pressure', unit: 'bar', nominal: 1.2, high: 2 },
 ];
+
+export const TELEMETRY_STALE_AFTER_MS = 10000;
+export const TELEMETRY_HISTORY_LENGTH = 40;
+export const TELEMETRY_POLL_INTERVAL_MS = 2000;
+
+// Tuned for 100 ms capture chunks: speech keeps the gate open for 600 ms after it
+// stops, and the 200 ms before it opened are sent too so word onsets aren't clipped.
+export const VOICE_GATE: VoiceGateOptions = {
+  marginDb: 12,
+  minLevelDb: -50,
+  hangoverChunks: 6,
+  preRollChunks: 2,
+  // Three seconds of 100 ms chunks.
+  noiseWindowChunks: 30,
+};
+
+// Levels are RMS over one analyser frame. The hangover bridges the gaps between words
+// so the indicator does not flicker back to "listening" mid-sentence.
+export const SPEAKING_DETECTION: SpeakingDetectionOptions = {
+  userThresholdDb: -45,
+  agentThresholdDb: -50,
+  hangoverMs: 500,
+  interruptedHoldMs: 1500,
+};
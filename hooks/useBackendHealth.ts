@@ -0,0 +1,23 @@
+
+import { useState, useEffect } from 'react';
+import { checkBackendHealth } from '../utils/backend.ts';
+
+const HEALTH_POLL_MS = 30000;
+
+/** null until the first check completes. */
+export function useBackendHealth(): boolean | null {
+  const [healthy, setHealthy] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = () => checkBackendHealth().then(ok => { if (!cancelled) setHealthy(ok); });
+    check();
+    const timer = setInterval(check, HEALTH_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, []);
+
+  return healthy;
+}
@@ -0,0 +1,32 @@
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RETENTION_PURGE_INTERVAL_MS } from '../constants.ts';
+import { purgeConsultationsBefore } from '../utils/historyStore.ts';
+import { loadRetentionDays, retentionCutoff, saveRetentionDays } from '../utils/privacy.ts';
+
+/**
+ * The retention period chosen in this browser. Older consultations are purged on load,
+ * whenever the period changes and hourly while the page stays open; `onPurged` hears
+ * about each purge that deleted something.
+ */
+export function useRetention(onPurged: (count: number) => void): [number, (days: number) => void] {
+  const [retentionDays, setRetentionDays] = useState(() => loadRetentionDays());
+  const onPurgedRef = useRef(onPurged);
+  onPurgedRef.current = onPurged;
+
+  useEffect(() => {
+    const purge = () => purgeConsultationsBefore(retentionCutoff(retentionDays))
+      // A purge that fails is simply retried at the next interval.
+      .then(count => { if (count > 0) onPurgedRef.current(count); }, () => {});
+    purge();
+    const timer = setInterval(purge, RETENTION_PURGE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [retentionDays]);
+
+  const changeRetention = useCallback((days: number) => {
+    saveRetentionDays(days);
+    setRetentionDays(days);
+  }, []);
+
+  return [retentionDays, changeRetention];
+}
@@ -0,0 +1,42 @@
+
+import { useState, useEffect } from 'react';
+import { SpeakingState } from '../types.ts';
+import { levelDb } from '../utils/vad.ts';
+import { SessionController } from '../session/controller.ts';
+
+/**
+ * Samples both analysers once per animation frame while `active` and feeds the tracker.
+ * Caller audio only counts while it is actually being sent, so a muted or idle
+ * push-to-talk mic never reads as "user speaking".
+ */
+export function useSpeakingState(
+  active: boolean,
+  source: Pick<SessionController, 'speakingTracker' | 'analysers' | 'isTransmitting'>,
+): SpeakingState {
+  const [state, setState] = useState(SpeakingState.LISTENING);
+
+  useEffect(() => {
+    if (!active) {
+      setState(SpeakingState.LISTENING);
+      return;
+    }
+    let frame = 0;
+    let buffer = new Float32Array(0);
+    const read = (analyser: AnalyserNode | null | undefined) => {
+      if (!analyser) return -100;
+      if (buffer.length !== analyser.fftSize) buffer = new Float32Array(analyser.fftSize);
+      analyser.getFloatTimeDomainData(buffer);
+      return levelDb(buffer);
+    };
+    const tick = () => {
+      const analysers = source.analysers;
+      const inputDb = source.isTransmitting ? read(analysers?.input) : -100;
+      setState(source.speakingTracker.update(inputDb, read(analysers?.output), performance.now()));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [active, source]);
+
+  return state;
+}
@@ -0,0 +1,48 @@
+
+import { useState, useEffect, useMemo } from 'react';
+import { MetricReading, TelemetrySource, TelemetryStatus } from '../types.ts';
+import { TELEMETRY_HISTORY_LENGTH } from '../constants.ts';
+
+export interface TelemetryState {
+  status: TelemetryStatus;
+  history: Record<string, MetricReading[]>;
+  latest: Record<string, MetricReading>;
+  /** Ticks every second so staleness indicators update without new data. */
+  now: number;
+}
+
+export function useTelemetry(source: TelemetrySource): TelemetryState {
+  const [status, setStatus] = useState<TelemetryStatus>(TelemetryStatus.CONNECTING);
+  const [history, setHistory] = useState<Record<string, MetricReading[]>>({});
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const stop = source.start(
+      readings => {
+        if (readings.length === 0) return;
+        setHistory(prev => {
+          const next = { ...prev };
+          readings.forEach(r => {
+            next[r.metricId] = [...(next[r.metricId] || []), r].slice(-TELEMETRY_HISTORY_LENGTH);
+          });
+          return next;
+        });
+      },
+      setStatus,
+    );
+    return stop;
+  }, [source]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const latest = useMemo(() => {
+    const result: Record<string, MetricReading> = {};
+    Object.keys(history).forEach(id => { result[id] = history[id][history[id].length - 1]; });
+    return result;
+  }, [history]);
+
+  return { status, history, latest, now };
+}
@@ -0,0 +1,156 @@
+
+import { MessageCatalog } from './en.ts';
+
+export const de: MessageCatalog = {
+  tagline: 'Systeme für die Kreislaufwirtschaft',
+  navTechnology: 'Technologie',
+  coreChecking: 'KERN WIRD GEPRÜFT...',
+  coreReady: 'KERN BEREIT',
+  coreOffline: 'KERN OFFLINE',
+  languageLabel: 'Sprache',
+  voiceLabel: 'Stimme',
+  settingsLocked: 'Beenden Sie die Sitzung, um Sprache oder Stimme zu ändern',
+
+  approvedFeedstocks: 'Zugelassene Einsatzstoffe',
+  notAccepted: 'Nicht angenommen',
+
+  verdictTitle: 'Bewertung des Einsatzstoffs',
+  verdictAccepted: 'Angenommen',
+  verdictConditional: 'Unter Auflagen',
+  verdictRejected: 'Abgelehnt',
+  verdictOrganic: 'Organisch {value} %',
+
+  impactTitle: 'Ausbeute & CO2-Bilanz',
+  impactFeedstock: 'Einsatzstoff',
+  impactTonnes: 'Tonnen',
+  impactQuoted: 'Im Gespräch genannt',
+  impactProducts: 'Produkte',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Prozessgas',
+  impactChar: 'Koks',
+  impactLosses: 'Verluste',
+  impactCarbon: 'CO2',
+  impactPyrolysis: 'Emissionen der Pyrolyse',
+  impactDisplacement: 'Ersetztes fossiles Naphtha',
+  impactVsLandfill: 'Netto-Einsparung ggü. Deponie',
+  impactVsIncineration: 'Netto-Einsparung ggü. Verbrennung',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Annahmen v{version} ({updated})',
+  impactProvisional: 'Vorläufige Werte',
+  impactRouteLandfill: 'Deponie',
+  impactRouteIncineration: 'Verbrennung',
+  impactRoutePyrolysis: 'Pyrolyse',
+  impactFactorValue: '{value} t CO2e/t',
+
+  plantTitle: 'Anlagenüberwachung: {plant}',
+  plantStream: 'Pilotlinie Alpha',
+  plantOffline: 'OFFLINE',
+  plantConnecting: 'VERBINDET',
+  plantStale: 'VERALTETE DATEN',
+  plantSimulated: 'SIMULIERTE DATEN',
+  plantLive: 'LIVE-DATEN',
+  metricConversion: 'Umsatz',
+  metricReactorTemp: 'Reaktortemp.',
+  metricFeedRate: 'Zufuhrrate',
+  metricPressure: 'Druck',
+  alarmLow: 'NIEDRIG',
+  alarmHigh: 'HOCH',
+  readingAge: 'vor {seconds} s',
+
+  stateListening: 'HÖRT ZU',
+  stateUserSpeaking: 'SIE SPRECHEN',
+  stateAgentSpeaking: 'BERATER SPRICHT',
+  stateInterrupted: 'UNTERBROCHEN',
+  statusConnecting: 'WIRD GESTARTET...',
+  statusReconnecting: 'NEUE VERBINDUNG {attempt}/{max}',
+  statusError: 'SYSTEMFEHLER',
+  statusIdle: 'SPRACHASSISTENT',
+  detailListening: 'Sie sind dran: Sprechen Sie frei mit unserem technischen Berater',
+  detailUserSpeaking: 'Der Berater hört zu',
+  detailAgentSpeaking: 'Lassen Sie den Berater ausreden, dann sind Sie dran',
+  detailInterrupted: 'Antwort abgebrochen: Sprechen Sie weiter',
+  detailError: 'Hardwarefehler erkannt',
+  detailIdle: 'Erleben Sie die Kreislaufwirtschafts-Beratung von Itero',
+
+  errorBackendOffline: 'Das Assistenz-Backend ist nicht erreichbar.',
+  errorConnectFailed: 'Verbindung zur Schnittstelle fehlgeschlagen.',
+  errorConnectionLost: 'Verbindung verloren. Die Sitzung konnte nicht wiederhergestellt werden.',
+  errorRetrying: 'Verbindung verloren. Neuer Versuch in {seconds} s...',
+  errorStartFailed: 'Sprachschnittstelle konnte nicht gestartet werden.',
+
+  startSession: 'Assistent starten',
+  endSession: 'Sitzung beenden',
+  reload: 'Neu laden',
+  spokenReplies: 'Gesprochene Antworten',
+  textReplies: 'Nur Textantworten',
+  composerPlaceholder: 'Frage eingeben...',
+  composerIdle: 'Starten Sie eine Sitzung, um zu chatten',
+  send: 'Senden',
+  recordOn: 'Diese Beratung wird aufgezeichnet',
+  recordOff: 'Audio zur Qualitätsprüfung aufzeichnen',
+  cameraStart: 'Dem Berater die Kamera zeigen',
+  cameraStop: 'Kamera beenden',
+  cameraUnavailable: 'Kamera nicht verfügbar',
+  imageUpload: 'Foto oder Datenblatt zeigen',
+  imagesPending: 'In diesem Redebeitrag mit dem Berater geteilt',
+  imageAlt: 'Dem Berater gezeigtes Bild',
+  imageUnreadable: 'Die Datei konnte nicht als Bild gelesen werden',
+
+  modeAlwaysOn: 'Immer an',
+  modePushToTalk: 'Sprechtaste',
+  modeVoiceGate: 'Sprach-Gate',
+  inputNoMic: 'Kein Mikrofon: nur Text',
+  inputIdle: 'Mikrofon inaktiv',
+  inputMuted: 'Stumm',
+  inputTransmitting: 'Übertragung',
+  inputHoldToTalk: 'Leertaste oder Mikrofon gedrückt halten',
+  inputSpeechDetected: 'Sprache erkannt',
+  inputWaiting: 'Warte auf Sprache',
+  inputStreaming: 'Streaming',
+
+  consultationLog: 'Beratungsprotokoll',
+  awaitingLink: 'Warte auf sichere Verbindung...',
+
+  historyTitle: 'Frühere Beratungen',
+  historyKeepFor: 'Aufbewahren für',
+  historyDays: '{days} Tage',
+  historyEmpty: 'Noch keine gespeicherten Beratungen.',
+  historyMessages: '{count} Nachrichten',
+  historyLoadFailed: 'Gespeicherte Beratungen sind in diesem Browser nicht verfügbar.',
+  historySaveFailed: 'Die letzte Beratung konnte in diesem Browser nicht gespeichert werden.',
+  historyDeleteFailed: 'Die Beratung konnte nicht aus diesem Browser gelöscht werden.',
+  historyRecordingFailed: 'Die Aufnahme konnte in diesem Browser nicht gelesen werden.',
+
+  enquiryTitle: 'Anfrage prüfen',
+  enquiryName: 'Name',
+  enquiryCompany: 'Unternehmen',
+  enquiryEmail: 'E-Mail',
+  enquiryPhone: 'Telefon',
+  enquiryWasteStream: 'Abfallstrom',
+  enquiryTonnage: 'Tonnen / Monat',
+  enquiryLocation: 'Standort',
+  enquiryQuestion: 'Frage',
+  enquiryExcerpt: 'Gesprächsauszug',
+  enquirySend: 'An das Team senden',
+  enquiryEml: '.eml-Entwurf',
+  enquirySent: 'Anfrage an das Itero-Team gesendet.',
+  enquiryIncomplete: 'Zum Senden werden eine Frage und eine E-Mail-Adresse oder Telefonnummer benötigt.',
+
+  consentTitle: 'Bevor die Beratung beginnt',
+  consentStreaming: 'Ihr Mikrofonton, Ihre getippten Nachrichten und alle Kamerabilder oder Fotos, die Sie teilen, werden an die Gemini Live API von Google gesendet, um die Antworten des Beraters zu erzeugen.',
+  consentStorage: 'Transkripte werden nur in diesem Browser gespeichert, mit maskierten E-Mail-Adressen, Telefonnummern und Postleitzahlen, und nach {days} Tagen automatisch gelöscht.',
+  consentEmbedded: 'Transkripte werden mit maskierten E-Mail-Adressen, Telefonnummern und Postleitzahlen an {host} weitergegeben, die Website, in die dieser Assistent eingebettet ist. In diesem Browser wird nichts gespeichert.',
+  consentRecording: 'Ton wird nur aufgezeichnet, wenn Sie die Aufnahme einschalten.',
+  consentAccept: 'Zustimmen und starten',
+  consentDecline: 'Jetzt nicht',
+  consentWithdraw: 'Einwilligung widerrufen',
+  consentGivenOn: 'Einwilligung erteilt am {date}',
+
+  widgetTitle: 'Itero-Assistent',
+  widgetIntro: 'Fragen Sie nach angenommenen Kunststoffen, unseren Anlagen oder der Wirkung des Recyclings Ihrer Abfälle.',
+  widgetUnknownHost: 'die einbettende Seite',
+
+  privacyPolicy: 'Datenschutz',
+  compliance: 'Compliance',
+};
@@ -0,0 +1,174 @@
+
+// Source catalog: every other language must provide the same keys.
+// Placeholders in braces are filled in by `translate`.
+export const en = {
+  // Header
+  tagline: 'Circular Economy Systems',
+  navTechnology: 'Technology',
+  coreChecking: 'CORE CHECK...',
+  coreReady: 'CORE READY',
+  coreOffline: 'CORE OFFLINE',
+  languageLabel: 'Language',
+  voiceLabel: 'Voice',
+  settingsLocked: 'End the session to change language or voice',
+
+  // Feedstock panel
+  approvedFeedstocks: 'Approved Feedstocks',
+  notAccepted: 'Not Accepted',
+
+  // Feedstock verdict
+  verdictTitle: 'Feedstock Verdict',
+  verdictAccepted: 'Accepted',
+  verdictConditional: 'Conditional',
+  verdictRejected: 'Rejected',
+  verdictOrganic: 'Organic {value}%',
+
+  // Impact calculator
+  impactTitle: 'Yield & CO2 Impact',
+  impactFeedstock: 'Feedstock',
+  impactTonnes: 'Tonnes',
+  impactQuoted: 'Quoted in consultation',
+  impactProducts: 'Products',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Process gas',
+  impactChar: 'Char',
+  impactLosses: 'Losses',
+  impactCarbon: 'Carbon',
+  impactPyrolysis: 'Pyrolysis emissions',
+  impactDisplacement: 'Fossil naphtha displaced',
+  impactVsLandfill: 'Net saving vs landfill',
+  impactVsIncineration: 'Net saving vs incineration',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Assumptions v{version} ({updated})',
+  impactProvisional: 'Provisional figures',
+  impactRouteLandfill: 'Landfill',
+  impactRouteIncineration: 'Incineration',
+  impactRoutePyrolysis: 'Pyrolysis',
+  impactFactorValue: '{value} t CO2e/t',
+
+  // Plant monitor
+  plantTitle: 'Plant Monitoring: {plant}',
+  plantStream: 'Pilot Stream Alpha',
+  plantOffline: 'OFFLINE',
+  plantConnecting: 'CONNECTING',
+  plantStale: 'STALE DATA',
+  plantSimulated: 'SIMULATED DATA',
+  plantLive: 'LIVE DATA',
+  metricConversion: 'Conversion',
+  metricReactorTemp: 'Reactor Temp',
+  metricFeedRate: 'Feed Rate',
+  metricPressure: 'Pressure',
+  alarmLow: 'LOW',
+  alarmHigh: 'HIGH',
+  readingAge: '{seconds}s old',
+
+  // Session status
+  stateListening: 'LISTENING',
+  stateUserSpeaking: 'YOU ARE SPEAKING',
+  stateAgentSpeaking: 'AGENT SPEAKING',
+  stateInterrupted: 'INTERRUPTED',
+  statusConnecting: 'INITIALIZING...',
+  statusReconnecting: 'RECONNECTING {attempt}/{max}',
+  statusError: 'SYSTEM ERROR',
+  statusIdle: 'VOICE INTERFACE',
+  detailListening: 'Your turn: speak freely with our technical consultant',
+  detailUserSpeaking: 'The consultant is listening',
+  detailAgentSpeaking: 'Let the consultant finish, then it is your turn',
+  detailInterrupted: 'Reply stopped: go ahead',
+  detailError: 'Hardware failure detected',
+  detailIdle: 'Experience Itero Circular Economy Consulting',
+
+  // Session errors
+  errorBackendOffline: 'Assistant backend is offline.',
+  errorConnectFailed: 'Interface connection failed.',
+  errorConnectionLost: 'Connection lost. The session could not be restored.',
+  errorRetrying: 'Connection lost. Retrying in {seconds}s...',
+  errorStartFailed: 'Failed to start voice interface.',
+
+  // Controls
+  startSession: 'Initialize Agent',
+  endSession: 'End Session',
+  reload: 'Reload',
+  spokenReplies: 'Spoken replies',
+  textReplies: 'Text-only replies',
+  composerPlaceholder: 'Type a question...',
+  composerIdle: 'Start a session to chat',
+  send: 'Send',
+  recordOn: 'Recording this consultation',
+  recordOff: 'Record audio for quality review',
+  cameraStart: 'Show the consultant your camera',
+  cameraStop: 'Stop the camera',
+  cameraUnavailable: 'Camera unavailable',
+  imageUpload: 'Show a photo or spec sheet',
+  imagesPending: 'Shared with the consultant this turn',
+  imageAlt: 'Image shown to the consultant',
+  imageUnreadable: 'That file could not be read as an image',
+
+  // Input modes
+  modeAlwaysOn: 'Always On',
+  modePushToTalk: 'Push to Talk',
+  modeVoiceGate: 'Voice Gate',
+  inputNoMic: 'No microphone: text only',
+  inputIdle: 'Mic idle',
+  inputMuted: 'Muted',
+  inputTransmitting: 'Transmitting',
+  inputHoldToTalk: 'Hold space or the mic to talk',
+  inputSpeechDetected: 'Speech detected',
+  inputWaiting: 'Waiting for speech',
+  inputStreaming: 'Streaming',
+
+  // Transcript
+  consultationLog: 'Consultation Log',
+  awaitingLink: 'Awaiting Secure Link...',
+
+  // Past consultations
+  historyTitle: 'Past Consultations',
+  historyKeepFor: 'Keep for',
+  historyDays: '{days} days',
+  historyEmpty: 'No saved consultations yet.',
+  historyMessages: '{count} messages',
+  historyLoadFailed: 'Stored consultations are unavailable in this browser.',
+  historySaveFailed: 'The last consultation could not be saved in this browser.',
+  historyDeleteFailed: 'The consultation could not be deleted from this browser.',
+  historyRecordingFailed: 'The recording could not be read from this browser.',
+
+  // Enquiry
+  enquiryTitle: 'Review Enquiry',
+  enquiryName: 'Name',
+  enquiryCompany: 'Company',
+  enquiryEmail: 'Email',
+  enquiryPhone: 'Phone',
+  enquiryWasteStream: 'Waste Stream',
+  enquiryTonnage: 'Tonnes / Month',
+  enquiryLocation: 'Location',
+  enquiryQuestion: 'Question',
+  enquiryExcerpt: 'Conversation Excerpt',
+  enquirySend: 'Send to Team',
+  enquiryEml: '.eml Draft',
+  enquirySent: 'Enquiry sent to the Itero team.',
+  enquiryIncomplete: 'A question and an email or phone number are needed to send.',
+
+  // Privacy
+  consentTitle: 'Before the consultation starts',
+  consentStreaming: "Your microphone audio, typed messages and any camera frames or photos you share are sent to Google's Gemini Live API to generate the consultant's replies.",
+  consentStorage: 'Transcripts are kept only in this browser, with email addresses, phone numbers and postcodes masked, and are deleted automatically after {days} days.',
+  consentEmbedded: 'Transcripts, with email addresses, phone numbers and postcodes masked, are shared with {host}, the site this assistant is embedded in. Nothing is kept in this browser.',
+  consentRecording: 'Audio is only recorded when you switch recording on.',
+  consentAccept: 'Agree and start',
+  consentDecline: 'Not now',
+  consentWithdraw: 'Withdraw consent',
+  consentGivenOn: 'Consent given {date}',
+
+  // Embedded widget
+  widgetTitle: 'Itero Assistant',
+  widgetIntro: 'Ask about accepted plastics, our plants or the impact of recycling your waste.',
+  widgetUnknownHost: 'the embedding page',
+
+  // Footer
+  privacyPolicy: 'Privacy Policy',
+  compliance: 'Compliance',
+};
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, string>;
@@ -0,0 +1,156 @@
+
+import { MessageCatalog } from './en.ts';
+
+export const es: MessageCatalog = {
+  tagline: 'Sistemas de economía circular',
+  navTechnology: 'Tecnología',
+  coreChecking: 'COMPROBANDO...',
+  coreReady: 'SISTEMA LISTO',
+  coreOffline: 'SISTEMA SIN CONEXIÓN',
+  languageLabel: 'Idioma',
+  voiceLabel: 'Voz',
+  settingsLocked: 'Finalice la sesión para cambiar el idioma o la voz',
+
+  approvedFeedstocks: 'Materias primas aprobadas',
+  notAccepted: 'No aceptadas',
+
+  verdictTitle: 'Dictamen de la materia prima',
+  verdictAccepted: 'Aceptada',
+  verdictConditional: 'Condicionada',
+  verdictRejected: 'Rechazada',
+  verdictOrganic: 'Orgánico {value} %',
+
+  impactTitle: 'Rendimiento e impacto CO2',
+  impactFeedstock: 'Materia prima',
+  impactTonnes: 'Toneladas',
+  impactQuoted: 'Citado en la consulta',
+  impactProducts: 'Productos',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Gas de proceso',
+  impactChar: 'Carbonizado',
+  impactLosses: 'Pérdidas',
+  impactCarbon: 'Carbono',
+  impactPyrolysis: 'Emisiones de la pirólisis',
+  impactDisplacement: 'Nafta fósil sustituida',
+  impactVsLandfill: 'Ahorro neto frente a vertedero',
+  impactVsIncineration: 'Ahorro neto frente a incineración',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Supuestos v{version} ({updated})',
+  impactProvisional: 'Cifras provisionales',
+  impactRouteLandfill: 'Vertedero',
+  impactRouteIncineration: 'Incineración',
+  impactRoutePyrolysis: 'Pirólisis',
+  impactFactorValue: '{value} t CO2e/t',
+
+  plantTitle: 'Supervisión de planta: {plant}',
+  plantStream: 'Línea piloto Alfa',
+  plantOffline: 'SIN CONEXIÓN',
+  plantConnecting: 'CONECTANDO',
+  plantStale: 'DATOS ANTIGUOS',
+  plantSimulated: 'DATOS SIMULADOS',
+  plantLive: 'DATOS EN VIVO',
+  metricConversion: 'Conversión',
+  metricReactorTemp: 'Temp. reactor',
+  metricFeedRate: 'Caudal de alimentación',
+  metricPressure: 'Presión',
+  alarmLow: 'BAJO',
+  alarmHigh: 'ALTO',
+  readingAge: 'hace {seconds} s',
+
+  stateListening: 'ESCUCHANDO',
+  stateUserSpeaking: 'ESTÁ HABLANDO',
+  stateAgentSpeaking: 'HABLA EL ASESOR',
+  stateInterrupted: 'INTERRUMPIDO',
+  statusConnecting: 'INICIANDO...',
+  statusReconnecting: 'RECONECTANDO {attempt}/{max}',
+  statusError: 'ERROR DEL SISTEMA',
+  statusIdle: 'INTERFAZ DE VOZ',
+  detailListening: 'Su turno: hable libremente con nuestro asesor técnico',
+  detailUserSpeaking: 'El asesor le está escuchando',
+  detailAgentSpeaking: 'Deje que el asesor termine y luego será su turno',
+  detailInterrupted: 'Respuesta detenida: adelante',
+  detailError: 'Fallo de hardware detectado',
+  detailIdle: 'Descubra la consultoría de economía circular de Itero',
+
+  errorBackendOffline: 'El servidor del asistente no está disponible.',
+  errorConnectFailed: 'Falló la conexión con la interfaz.',
+  errorConnectionLost: 'Conexión perdida. No se pudo restablecer la sesión.',
+  errorRetrying: 'Conexión perdida. Reintentando en {seconds} s...',
+  errorStartFailed: 'No se pudo iniciar la interfaz de voz.',
+
+  startSession: 'Iniciar asistente',
+  endSession: 'Finalizar sesión',
+  reload: 'Recargar',
+  spokenReplies: 'Respuestas habladas',
+  textReplies: 'Solo respuestas escritas',
+  composerPlaceholder: 'Escriba una pregunta...',
+  composerIdle: 'Inicie una sesión para chatear',
+  send: 'Enviar',
+  recordOn: 'Se está grabando esta consulta',
+  recordOff: 'Grabar audio para control de calidad',
+  cameraStart: 'Mostrar la cámara al asesor',
+  cameraStop: 'Detener la cámara',
+  cameraUnavailable: 'Cámara no disponible',
+  imageUpload: 'Mostrar una foto o ficha técnica',
+  imagesPending: 'Compartido con el asesor en este turno',
+  imageAlt: 'Imagen mostrada al asesor',
+  imageUnreadable: 'No se pudo leer el archivo como imagen',
+
+  modeAlwaysOn: 'Siempre activo',
+  modePushToTalk: 'Pulsar para hablar',
+  modeVoiceGate: 'Detección de voz',
+  inputNoMic: 'Sin micrófono: solo texto',
+  inputIdle: 'Micrófono inactivo',
+  inputMuted: 'Silenciado',
+  inputTransmitting: 'Transmitiendo',
+  inputHoldToTalk: 'Mantenga pulsada la barra espaciadora o el micrófono',
+  inputSpeechDetected: 'Voz detectada',
+  inputWaiting: 'Esperando voz',
+  inputStreaming: 'Transmisión continua',
+
+  consultationLog: 'Registro de la consulta',
+  awaitingLink: 'Esperando enlace seguro...',
+
+  historyTitle: 'Consultas anteriores',
+  historyKeepFor: 'Conservar',
+  historyDays: '{days} días',
+  historyEmpty: 'Aún no hay consultas guardadas.',
+  historyMessages: '{count} mensajes',
+  historyLoadFailed: 'Las consultas guardadas no están disponibles en este navegador.',
+  historySaveFailed: 'La última consulta no se pudo guardar en este navegador.',
+  historyDeleteFailed: 'La consulta no se pudo eliminar de este navegador.',
+  historyRecordingFailed: 'La grabación no se pudo leer en este navegador.',
+
+  enquiryTitle: 'Revisar la solicitud',
+  enquiryName: 'Nombre',
+  enquiryCompany: 'Empresa',
+  enquiryEmail: 'Correo electrónico',
+  enquiryPhone: 'Teléfono',
+  enquiryWasteStream: 'Flujo de residuos',
+  enquiryTonnage: 'Toneladas / mes',
+  enquiryLocation: 'Ubicación',
+  enquiryQuestion: 'Pregunta',
+  enquiryExcerpt: 'Extracto de la conversación',
+  enquirySend: 'Enviar al equipo',
+  enquiryEml: 'Borrador .eml',
+  enquirySent: 'Solicitud enviada al equipo de Itero.',
+  enquiryIncomplete: 'Para enviar se necesitan una pregunta y un correo electrónico o teléfono.',
+
+  consentTitle: 'Antes de empezar la consulta',
+  consentStreaming: 'El audio de su micrófono, sus mensajes escritos y las imágenes de cámara o fotos que comparta se envían a la API Gemini Live de Google para generar las respuestas del consultor.',
+  consentStorage: 'Las transcripciones se guardan solo en este navegador, con las direcciones de correo, los teléfonos y los códigos postales enmascarados, y se eliminan automáticamente después de {days} días.',
+  consentEmbedded: 'Las transcripciones, con las direcciones de correo, los teléfonos y los códigos postales enmascarados, se comparten con {host}, el sitio en el que está integrado este asistente. No se guarda nada en este navegador.',
+  consentRecording: 'El audio solo se graba si activa la grabación.',
+  consentAccept: 'Aceptar y empezar',
+  consentDecline: 'Ahora no',
+  consentWithdraw: 'Retirar el consentimiento',
+  consentGivenOn: 'Consentimiento dado el {date}',
+
+  widgetTitle: 'Asistente Itero',
+  widgetIntro: 'Pregunte por los plásticos aceptados, nuestras plantas o el impacto de reciclar sus residuos.',
+  widgetUnknownHost: 'la página que lo integra',
+
+  privacyPolicy: 'Privacidad',
+  compliance: 'Cumplimiento',
+};
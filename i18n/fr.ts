@@ -0,0 +1,156 @@
+
+import { MessageCatalog } from './en.ts';
+
+export const fr: MessageCatalog = {
+  tagline: "Systèmes d'économie circulaire",
+  navTechnology: 'Technologie',
+  coreChecking: 'VÉRIFICATION...',
+  coreReady: 'SYSTÈME PRÊT',
+  coreOffline: 'SYSTÈME HORS LIGNE',
+  languageLabel: 'Langue',
+  voiceLabel: 'Voix',
+  settingsLocked: 'Terminez la session pour changer de langue ou de voix',
+
+  approvedFeedstocks: 'Matières premières acceptées',
+  notAccepted: 'Non acceptées',
+
+  verdictTitle: 'Verdict matière première',
+  verdictAccepted: 'Acceptée',
+  verdictConditional: 'Sous conditions',
+  verdictRejected: 'Refusée',
+  verdictOrganic: 'Organique {value} %',
+
+  impactTitle: 'Rendement & impact CO2',
+  impactFeedstock: 'Matière première',
+  impactTonnes: 'Tonnes',
+  impactQuoted: 'Cité pendant la consultation',
+  impactProducts: 'Produits',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Gaz de procédé',
+  impactChar: 'Char',
+  impactLosses: 'Pertes',
+  impactCarbon: 'Carbone',
+  impactPyrolysis: 'Émissions de la pyrolyse',
+  impactDisplacement: 'Naphta fossile remplacé',
+  impactVsLandfill: 'Gain net vs mise en décharge',
+  impactVsIncineration: 'Gain net vs incinération',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Hypothèses v{version} ({updated})',
+  impactProvisional: 'Valeurs provisoires',
+  impactRouteLandfill: 'Mise en décharge',
+  impactRouteIncineration: 'Incinération',
+  impactRoutePyrolysis: 'Pyrolyse',
+  impactFactorValue: '{value} t CO2e/t',
+
+  plantTitle: 'Supervision du site : {plant}',
+  plantStream: 'Ligne pilote Alpha',
+  plantOffline: 'HORS LIGNE',
+  plantConnecting: 'CONNEXION',
+  plantStale: 'DONNÉES PÉRIMÉES',
+  plantSimulated: 'DONNÉES SIMULÉES',
+  plantLive: 'DONNÉES EN DIRECT',
+  metricConversion: 'Conversion',
+  metricReactorTemp: 'Temp. réacteur',
+  metricFeedRate: 'Débit',
+  metricPressure: 'Pression',
+  alarmLow: 'BAS',
+  alarmHigh: 'HAUT',
+  readingAge: 'il y a {seconds} s',
+
+  stateListening: 'À L’ÉCOUTE',
+  stateUserSpeaking: 'VOUS PARLEZ',
+  stateAgentSpeaking: 'LE CONSEILLER PARLE',
+  stateInterrupted: 'INTERROMPU',
+  statusConnecting: 'INITIALISATION...',
+  statusReconnecting: 'RECONNEXION {attempt}/{max}',
+  statusError: 'ERREUR SYSTÈME',
+  statusIdle: 'INTERFACE VOCALE',
+  detailListening: 'À vous : parlez librement avec notre conseiller technique',
+  detailUserSpeaking: 'Le conseiller vous écoute',
+  detailAgentSpeaking: 'Laissez le conseiller terminer, puis ce sera à vous',
+  detailInterrupted: 'Réponse interrompue : allez-y',
+  detailError: 'Défaillance matérielle détectée',
+  detailIdle: "Découvrez le conseil en économie circulaire d'Itero",
+
+  errorBackendOffline: "Le serveur de l'assistant est hors ligne.",
+  errorConnectFailed: "La connexion à l'interface a échoué.",
+  errorConnectionLost: "Connexion perdue. La session n'a pas pu être rétablie.",
+  errorRetrying: 'Connexion perdue. Nouvel essai dans {seconds} s...',
+  errorStartFailed: "Impossible de démarrer l'interface vocale.",
+
+  startSession: "Lancer l'assistant",
+  endSession: 'Terminer la session',
+  reload: 'Recharger',
+  spokenReplies: 'Réponses vocales',
+  textReplies: 'Réponses écrites uniquement',
+  composerPlaceholder: 'Posez une question...',
+  composerIdle: 'Démarrez une session pour discuter',
+  send: 'Envoyer',
+  recordOn: 'Cette consultation est enregistrée',
+  recordOff: "Enregistrer l'audio pour le contrôle qualité",
+  cameraStart: 'Montrer votre caméra au conseiller',
+  cameraStop: 'Arrêter la caméra',
+  cameraUnavailable: 'Caméra indisponible',
+  imageUpload: 'Montrer une photo ou une fiche technique',
+  imagesPending: 'Partagé avec le conseiller pendant ce tour',
+  imageAlt: 'Image montrée au conseiller',
+  imageUnreadable: "Ce fichier n'a pas pu être lu comme image",
+
+  modeAlwaysOn: 'Toujours actif',
+  modePushToTalk: 'Appuyer pour parler',
+  modeVoiceGate: 'Détection vocale',
+  inputNoMic: 'Pas de micro : texte uniquement',
+  inputIdle: 'Micro inactif',
+  inputMuted: 'Muet',
+  inputTransmitting: 'Transmission',
+  inputHoldToTalk: "Maintenez la barre d'espace ou le micro pour parler",
+  inputSpeechDetected: 'Parole détectée',
+  inputWaiting: 'En attente de parole',
+  inputStreaming: 'Diffusion',
+
+  consultationLog: 'Journal de consultation',
+  awaitingLink: 'En attente de liaison sécurisée...',
+
+  historyTitle: 'Consultations passées',
+  historyKeepFor: 'Conserver',
+  historyDays: '{days} jours',
+  historyEmpty: "Aucune consultation enregistrée pour l'instant.",
+  historyMessages: '{count} messages',
+  historyLoadFailed: 'Les consultations enregistrées ne sont pas disponibles dans ce navigateur.',
+  historySaveFailed: "La dernière consultation n'a pas pu être enregistrée dans ce navigateur.",
+  historyDeleteFailed: "La consultation n'a pas pu être supprimée de ce navigateur.",
+  historyRecordingFailed: "L'enregistrement n'a pas pu être lu dans ce navigateur.",
+
+  enquiryTitle: 'Vérifier la demande',
+  enquiryName: 'Nom',
+  enquiryCompany: 'Entreprise',
+  enquiryEmail: 'E-mail',
+  enquiryPhone: 'Téléphone',
+  enquiryWasteStream: 'Flux de déchets',
+  enquiryTonnage: 'Tonnes / mois',
+  enquiryLocation: 'Lieu',
+  enquiryQuestion: 'Question',
+  enquiryExcerpt: 'Extrait de la conversation',
+  enquirySend: "Envoyer à l'équipe",
+  enquiryEml: 'Brouillon .eml',
+  enquirySent: "Demande envoyée à l'équipe Itero.",
+  enquiryIncomplete: "Une question et une adresse e-mail ou un numéro de téléphone sont nécessaires pour l'envoi.",
+
+  consentTitle: 'Avant le début de la consultation',
+  consentStreaming: "L'audio de votre micro, vos messages écrits et les images de caméra ou photos que vous partagez sont envoyés à l'API Gemini Live de Google pour générer les réponses du consultant.",
+  consentStorage: 'Les transcriptions sont conservées uniquement dans ce navigateur, avec les adresses e-mail, numéros de téléphone et codes postaux masqués, et sont supprimées automatiquement après {days} jours.',
+  consentEmbedded: "Les transcriptions, avec les adresses e-mail, numéros de téléphone et codes postaux masqués, sont partagées avec {host}, le site dans lequel cet assistant est intégré. Rien n'est conservé dans ce navigateur.",
+  consentRecording: "L'audio n'est enregistré que si vous activez l'enregistrement.",
+  consentAccept: 'Accepter et démarrer',
+  consentDecline: 'Pas maintenant',
+  consentWithdraw: 'Retirer le consentement',
+  consentGivenOn: 'Consentement donné le {date}',
+
+  widgetTitle: 'Assistant Itero',
+  widgetIntro: "Posez vos questions sur les plastiques acceptés, nos usines ou l'impact du recyclage de vos déchets.",
+  widgetUnknownHost: "la page d'intégration",
+
+  privacyPolicy: 'Confidentialité',
+  compliance: 'Conformité',
+};
@@ -0,0 +1,43 @@
+
+import { createContext, useContext } from 'react';
+import { LanguageCode, LanguageOption } from '../types.ts';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../constants.ts';
+import { en, MessageCatalog, MessageKey } from './en.ts';
+import { de } from './de.ts';
+import { fr } from './fr.ts';
+import { es } from './es.ts';
+import { it } from './it.ts';
+import { nl } from './nl.ts';
+
+export type { MessageKey } from './en.ts';
+
+const CATALOGS: Record<LanguageCode, MessageCatalog> = {
+  'en-GB': en,
+  'de-DE': de,
+  'fr-FR': fr,
+  'es-ES': es,
+  'it-IT': it,
+  'nl-NL': nl,
+};
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export function translate(language: LanguageCode, key: MessageKey, params: Record<string, string | number> = {}): string {
+  return CATALOGS[language][key].replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+export const languageOption = (code: LanguageCode): LanguageOption => LANGUAGES.find(l => l.code === code)!;
+
+/** Best match for the browser's preferred languages, compared on the primary subtag. */
+export function detectLanguage(preferred: readonly string[] = navigator.languages): LanguageCode {
+  for (const tag of preferred) {
+    const primary = tag.toLowerCase().split('-')[0];
+    const match = LANGUAGES.find(l => l.code.toLowerCase().startsWith(`${primary}-`));
+    if (match) return match.code;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+export const I18nContext = createContext<Translator>((key, params) => translate(DEFAULT_LANGUAGE, key, params));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,156 @@
+
+import { MessageCatalog } from './en.ts';
+
+export const it: MessageCatalog = {
+  tagline: 'Sistemi per l’economia circolare',
+  navTechnology: 'Tecnologia',
+  coreChecking: 'VERIFICA IN CORSO...',
+  coreReady: 'SISTEMA PRONTO',
+  coreOffline: 'SISTEMA NON RAGGIUNGIBILE',
+  languageLabel: 'Lingua',
+  voiceLabel: 'Voce',
+  settingsLocked: 'Termina la sessione per cambiare lingua o voce',
+
+  approvedFeedstocks: 'Materie prime ammesse',
+  notAccepted: 'Non accettate',
+
+  verdictTitle: 'Esito della materia prima',
+  verdictAccepted: 'Accettata',
+  verdictConditional: 'Con riserva',
+  verdictRejected: 'Respinta',
+  verdictOrganic: 'Organico {value}%',
+
+  impactTitle: 'Resa e impatto CO2',
+  impactFeedstock: 'Materia prima',
+  impactTonnes: 'Tonnellate',
+  impactQuoted: 'Citato nella consulenza',
+  impactProducts: 'Prodotti',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Gas di processo',
+  impactChar: 'Char',
+  impactLosses: 'Perdite',
+  impactCarbon: 'Carbonio',
+  impactPyrolysis: 'Emissioni della pirolisi',
+  impactDisplacement: 'Nafta fossile sostituita',
+  impactVsLandfill: 'Risparmio netto vs discarica',
+  impactVsIncineration: 'Risparmio netto vs incenerimento',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Ipotesi v{version} ({updated})',
+  impactProvisional: 'Valori provvisori',
+  impactRouteLandfill: 'Discarica',
+  impactRouteIncineration: 'Incenerimento',
+  impactRoutePyrolysis: 'Pirolisi',
+  impactFactorValue: '{value} t CO2e/t',
+
+  plantTitle: 'Monitoraggio impianto: {plant}',
+  plantStream: 'Linea pilota Alfa',
+  plantOffline: 'OFFLINE',
+  plantConnecting: 'CONNESSIONE',
+  plantStale: 'DATI NON AGGIORNATI',
+  plantSimulated: 'DATI SIMULATI',
+  plantLive: 'DATI IN TEMPO REALE',
+  metricConversion: 'Conversione',
+  metricReactorTemp: 'Temp. reattore',
+  metricFeedRate: 'Portata di alimentazione',
+  metricPressure: 'Pressione',
+  alarmLow: 'BASSO',
+  alarmHigh: 'ALTO',
+  readingAge: '{seconds} s fa',
+
+  stateListening: 'IN ASCOLTO',
+  stateUserSpeaking: 'STAI PARLANDO',
+  stateAgentSpeaking: 'PARLA IL CONSULENTE',
+  stateInterrupted: 'INTERROTTO',
+  statusConnecting: 'AVVIO IN CORSO...',
+  statusReconnecting: 'RICONNESSIONE {attempt}/{max}',
+  statusError: 'ERRORE DI SISTEMA',
+  statusIdle: 'INTERFACCIA VOCALE',
+  detailListening: 'Tocca a te: parla liberamente con il nostro consulente tecnico',
+  detailUserSpeaking: 'Il consulente ti sta ascoltando',
+  detailAgentSpeaking: 'Lascia finire il consulente, poi tocca a te',
+  detailInterrupted: 'Risposta interrotta: prosegui pure',
+  detailError: 'Rilevato un guasto hardware',
+  detailIdle: 'Scopri la consulenza Itero sull’economia circolare',
+
+  errorBackendOffline: 'Il server dell’assistente non è raggiungibile.',
+  errorConnectFailed: 'Connessione all’interfaccia non riuscita.',
+  errorConnectionLost: 'Connessione persa. Non è stato possibile ripristinare la sessione.',
+  errorRetrying: 'Connessione persa. Nuovo tentativo tra {seconds} s...',
+  errorStartFailed: 'Impossibile avviare l’interfaccia vocale.',
+
+  startSession: 'Avvia assistente',
+  endSession: 'Termina sessione',
+  reload: 'Ricarica',
+  spokenReplies: 'Risposte vocali',
+  textReplies: 'Solo risposte scritte',
+  composerPlaceholder: 'Scrivi una domanda...',
+  composerIdle: 'Avvia una sessione per chattare',
+  send: 'Invia',
+  recordOn: 'Questa consulenza viene registrata',
+  recordOff: 'Registra l’audio per il controllo qualità',
+  cameraStart: 'Mostra la fotocamera al consulente',
+  cameraStop: 'Ferma la fotocamera',
+  cameraUnavailable: 'Fotocamera non disponibile',
+  imageUpload: 'Mostra una foto o una scheda tecnica',
+  imagesPending: 'Condiviso con il consulente in questo turno',
+  imageAlt: 'Immagine mostrata al consulente',
+  imageUnreadable: 'Impossibile leggere il file come immagine',
+
+  modeAlwaysOn: 'Sempre attivo',
+  modePushToTalk: 'Premi per parlare',
+  modeVoiceGate: 'Rilevamento voce',
+  inputNoMic: 'Nessun microfono: solo testo',
+  inputIdle: 'Microfono inattivo',
+  inputMuted: 'Muto',
+  inputTransmitting: 'Trasmissione',
+  inputHoldToTalk: 'Tieni premuto spazio o il microfono per parlare',
+  inputSpeechDetected: 'Voce rilevata',
+  inputWaiting: 'In attesa della voce',
+  inputStreaming: 'Streaming',
+
+  consultationLog: 'Registro della consulenza',
+  awaitingLink: 'In attesa del collegamento sicuro...',
+
+  historyTitle: 'Consulenze precedenti',
+  historyKeepFor: 'Conserva per',
+  historyDays: '{days} giorni',
+  historyEmpty: 'Nessuna consulenza salvata.',
+  historyMessages: '{count} messaggi',
+  historyLoadFailed: 'Le consulenze salvate non sono disponibili in questo browser.',
+  historySaveFailed: "Non è stato possibile salvare in questo browser l'ultima consulenza.",
+  historyDeleteFailed: 'Non è stato possibile eliminare la consulenza da questo browser.',
+  historyRecordingFailed: 'Non è stato possibile leggere la registrazione in questo browser.',
+
+  enquiryTitle: 'Verifica la richiesta',
+  enquiryName: 'Nome',
+  enquiryCompany: 'Azienda',
+  enquiryEmail: 'Email',
+  enquiryPhone: 'Telefono',
+  enquiryWasteStream: 'Flusso di rifiuti',
+  enquiryTonnage: 'Tonnellate / mese',
+  enquiryLocation: 'Località',
+  enquiryQuestion: 'Domanda',
+  enquiryExcerpt: 'Estratto della conversazione',
+  enquirySend: 'Invia al team',
+  enquiryEml: 'Bozza .eml',
+  enquirySent: 'Richiesta inviata al team Itero.',
+  enquiryIncomplete: 'Per inviare servono una domanda e un indirizzo email o un numero di telefono.',
+
+  consentTitle: 'Prima di iniziare la consulenza',
+  consentStreaming: "L'audio del microfono, i messaggi scritti e le immagini della fotocamera o le foto che condividi vengono inviati all'API Gemini Live di Google per generare le risposte del consulente.",
+  consentStorage: 'Le trascrizioni restano solo in questo browser, con indirizzi email, numeri di telefono e codici postali mascherati, e vengono eliminate automaticamente dopo {days} giorni.',
+  consentEmbedded: 'Le trascrizioni, con indirizzi email, numeri di telefono e codici postali mascherati, vengono condivise con {host}, il sito in cui è integrato questo assistente. In questo browser non viene conservato nulla.',
+  consentRecording: "L'audio viene registrato solo se attivi la registrazione.",
+  consentAccept: 'Accetta e inizia',
+  consentDecline: 'Non ora',
+  consentWithdraw: 'Revoca il consenso',
+  consentGivenOn: 'Consenso dato il {date}',
+
+  widgetTitle: 'Assistente Itero',
+  widgetIntro: "Chiedi delle plastiche accettate, dei nostri impianti o dell'impatto del riciclo dei tuoi rifiuti.",
+  widgetUnknownHost: 'la pagina che lo integra',
+
+  privacyPolicy: 'Privacy',
+  compliance: 'Conformità',
+};
@@ -0,0 +1,156 @@
+
+import { MessageCatalog } from './en.ts';
+
+export const nl: MessageCatalog = {
+  tagline: 'Systemen voor de circulaire economie',
+  navTechnology: 'Technologie',
+  coreChecking: 'CONTROLE...',
+  coreReady: 'SYSTEEM GEREED',
+  coreOffline: 'SYSTEEM OFFLINE',
+  languageLabel: 'Taal',
+  voiceLabel: 'Stem',
+  settingsLocked: 'Beëindig de sessie om taal of stem te wijzigen',
+
+  approvedFeedstocks: 'Goedgekeurde grondstoffen',
+  notAccepted: 'Niet geaccepteerd',
+
+  verdictTitle: 'Beoordeling grondstof',
+  verdictAccepted: 'Geaccepteerd',
+  verdictConditional: 'Onder voorwaarden',
+  verdictRejected: 'Afgewezen',
+  verdictOrganic: 'Organisch {value}%',
+
+  impactTitle: 'Opbrengst & CO2-impact',
+  impactFeedstock: 'Grondstof',
+  impactTonnes: 'Ton',
+  impactQuoted: 'Genoemd in het gesprek',
+  impactProducts: 'Producten',
+  impactOil: 'Itero-Oil',
+  impactGas: 'Procesgas',
+  impactChar: 'Char',
+  impactLosses: 'Verliezen',
+  impactCarbon: 'Koolstof',
+  impactPyrolysis: 'Emissies van pyrolyse',
+  impactDisplacement: 'Vervangen fossiele nafta',
+  impactVsLandfill: 'Netto besparing t.o.v. storten',
+  impactVsIncineration: 'Netto besparing t.o.v. verbranden',
+  impactTonnesValue: '{value} t',
+  impactCo2Value: '{value} t CO2e',
+  impactAssumptions: 'Aannames v{version} ({updated})',
+  impactProvisional: 'Voorlopige cijfers',
+  impactRouteLandfill: 'Stort',
+  impactRouteIncineration: 'Verbranding',
+  impactRoutePyrolysis: 'Pyrolyse',
+  impactFactorValue: '{value} t CO2e/t',
+
+  plantTitle: 'Installatiebewaking: {plant}',
+  plantStream: 'Pilotlijn Alpha',
+  plantOffline: 'OFFLINE',
+  plantConnecting: 'VERBINDEN',
+  plantStale: 'VEROUDERDE GEGEVENS',
+  plantSimulated: 'GESIMULEERDE GEGEVENS',
+  plantLive: 'LIVE GEGEVENS',
+  metricConversion: 'Conversie',
+  metricReactorTemp: 'Reactortemp.',
+  metricFeedRate: 'Voedingsdebiet',
+  metricPressure: 'Druk',
+  alarmLow: 'LAAG',
+  alarmHigh: 'HOOG',
+  readingAge: '{seconds} s oud',
+
+  stateListening: 'LUISTERT',
+  stateUserSpeaking: 'U SPREEKT',
+  stateAgentSpeaking: 'ADVISEUR SPREEKT',
+  stateInterrupted: 'ONDERBROKEN',
+  statusConnecting: 'OPSTARTEN...',
+  statusReconnecting: 'OPNIEUW VERBINDEN {attempt}/{max}',
+  statusError: 'SYSTEEMFOUT',
+  statusIdle: 'SPRAAKINTERFACE',
+  detailListening: 'Uw beurt: spreek vrijuit met onze technisch adviseur',
+  detailUserSpeaking: 'De adviseur luistert',
+  detailAgentSpeaking: 'Laat de adviseur uitpraten, daarna bent u aan de beurt',
+  detailInterrupted: 'Antwoord gestopt: ga uw gang',
+  detailError: 'Hardwarestoring gedetecteerd',
+  detailIdle: 'Ervaar het circulaire-economie-advies van Itero',
+
+  errorBackendOffline: 'De server van de assistent is offline.',
+  errorConnectFailed: 'Verbinding met de interface mislukt.',
+  errorConnectionLost: 'Verbinding verbroken. De sessie kon niet worden hersteld.',
+  errorRetrying: 'Verbinding verbroken. Nieuwe poging over {seconds} s...',
+  errorStartFailed: 'De spraakinterface kon niet worden gestart.',
+
+  startSession: 'Assistent starten',
+  endSession: 'Sessie beëindigen',
+  reload: 'Herladen',
+  spokenReplies: 'Gesproken antwoorden',
+  textReplies: 'Alleen tekstantwoorden',
+  composerPlaceholder: 'Typ een vraag...',
+  composerIdle: 'Start een sessie om te chatten',
+  send: 'Verzenden',
+  recordOn: 'Dit gesprek wordt opgenomen',
+  recordOff: 'Audio opnemen voor kwaliteitscontrole',
+  cameraStart: 'Laat de adviseur uw camera zien',
+  cameraStop: 'Camera stoppen',
+  cameraUnavailable: 'Camera niet beschikbaar',
+  imageUpload: 'Laat een foto of specificatieblad zien',
+  imagesPending: 'Deze beurt gedeeld met de adviseur',
+  imageAlt: 'Afbeelding getoond aan de adviseur',
+  imageUnreadable: 'Het bestand kon niet als afbeelding worden gelezen',
+
+  modeAlwaysOn: 'Altijd aan',
+  modePushToTalk: 'Indrukken om te praten',
+  modeVoiceGate: 'Spraakdetectie',
+  inputNoMic: 'Geen microfoon: alleen tekst',
+  inputIdle: 'Microfoon inactief',
+  inputMuted: 'Gedempt',
+  inputTransmitting: 'Bezig met verzenden',
+  inputHoldToTalk: 'Houd spatie of de microfoon ingedrukt om te praten',
+  inputSpeechDetected: 'Spraak gedetecteerd',
+  inputWaiting: 'Wachten op spraak',
+  inputStreaming: 'Streaming',
+
+  consultationLog: 'Gesprekslogboek',
+  awaitingLink: 'Wachten op beveiligde verbinding...',
+
+  historyTitle: 'Eerdere gesprekken',
+  historyKeepFor: 'Bewaren',
+  historyDays: '{days} dagen',
+  historyEmpty: 'Nog geen opgeslagen gesprekken.',
+  historyMessages: '{count} berichten',
+  historyLoadFailed: 'Opgeslagen gesprekken zijn in deze browser niet beschikbaar.',
+  historySaveFailed: 'Het laatste gesprek kon niet in deze browser worden opgeslagen.',
+  historyDeleteFailed: 'Het gesprek kon niet uit deze browser worden verwijderd.',
+  historyRecordingFailed: 'De opname kon niet uit deze browser worden gelezen.',
+
+  enquiryTitle: 'Aanvraag controleren',
+  enquiryName: 'Naam',
+  enquiryCompany: 'Bedrijf',
+  enquiryEmail: 'E-mail',
+  enquiryPhone: 'Telefoon',
+  enquiryWasteStream: 'Afvalstroom',
+  enquiryTonnage: 'Ton / maand',
+  enquiryLocation: 'Locatie',
+  enquiryQuestion: 'Vraag',
+  enquiryExcerpt: 'Fragment uit het gesprek',
+  enquirySend: 'Naar het team sturen',
+  enquiryEml: '.eml-concept',
+  enquirySent: 'Aanvraag naar het Itero-team gestuurd.',
+  enquiryIncomplete: 'Om te versturen zijn een vraag en een e-mailadres of telefoonnummer nodig.',
+
+  consentTitle: 'Voordat het gesprek begint',
+  consentStreaming: "Uw microfoongeluid, getypte berichten en camerabeelden of foto's die u deelt, worden naar de Gemini Live API van Google gestuurd om de antwoorden van de consultant te maken.",
+  consentStorage: 'Transcripties worden alleen in deze browser bewaard, met e-mailadressen, telefoonnummers en postcodes gemaskeerd, en na {days} dagen automatisch verwijderd.',
+  consentEmbedded: 'Transcripties worden, met e-mailadressen, telefoonnummers en postcodes gemaskeerd, gedeeld met {host}, de site waarin deze assistent is ingebed. Er wordt niets in deze browser bewaard.',
+  consentRecording: 'Geluid wordt alleen opgenomen als u opnemen inschakelt.',
+  consentAccept: 'Akkoord en starten',
+  consentDecline: 'Nu niet',
+  consentWithdraw: 'Toestemming intrekken',
+  consentGivenOn: 'Toestemming gegeven op {date}',
+
+  widgetTitle: 'Itero-assistent',
+  widgetIntro: 'Vraag naar geaccepteerde kunststoffen, onze installaties of de impact van het recyclen van uw afval.',
+  widgetUnknownHost: 'de insluitende pagina',
+
+  privacyPolicy: 'Privacybeleid',
+  compliance: 'Naleving',
+};
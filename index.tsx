@@ -1,10 +1,24 @@
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App.tsx';
+import QualityDashboard from './components/QualityDashboard.tsx';
 
 console.log("Mounting Itero Application...");
 
+// The quality dashboard is for the team, so it has a route but no link from the assistant.
+const DASHBOARD_ROUTE = '#/quality';
+
+const Root = () => {
+  const [route, setRoute] = useState(window.location.hash);
+  useEffect(() => {
+    const onHashChange = () => setRoute(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+  return route === DASHBOARD_ROUTE ? <QualityDashboard /> : <App />;
+};
+
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Target container 'root' not found in the DOM.");
@@ -13,6 +27,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <Root />
   </React.StrictMode>
 );
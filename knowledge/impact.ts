@@ -0,0 +1,24 @@
+
+import { ImpactAssumptions } from '../types.ts';
+
+// Every yield and carbon figure the assistant or the calculator panel quotes comes from here.
+// Change a factor only together with its `source`, then bump `version` and `updated`; the
+// build checks that each accepted feedstock has exactly one yield entry. Figures marked
+// provisional are placeholders until the technical team signs off measured values.
+export const IMPACT_ASSUMPTIONS: ImpactAssumptions = {
+  version: '1.0.1',
+  updated: '2026-10-19',
+  yields: [
+    { feedstock: 'LDPE (Low-Density Polyethylene)', oil: 0.8, gas: 0.15, char: 0.03, source: 'Provisional: typical range for LDPE film pyrolysis, pending WLPP mass balance' },
+    { feedstock: 'HDPE (High-Density Polyethylene)', oil: 0.78, gas: 0.17, char: 0.03, source: 'Provisional: typical range for HDPE pyrolysis, pending WLPP mass balance' },
+    { feedstock: 'PP (Polypropylene)', oil: 0.8, gas: 0.14, char: 0.04, source: 'Provisional: typical range for PP pyrolysis, pending WLPP mass balance' },
+    { feedstock: 'PS (Polystyrene)', oil: 0.83, gas: 0.06, char: 0.08, source: 'Provisional: typical range for PS pyrolysis, pending WLPP mass balance' },
+    { feedstock: 'Mixed Polyolefins', oil: 0.74, gas: 0.16, char: 0.06, source: 'Provisional: post-consumer mixed polyolefins, pending WLPP mass balance' },
+  ],
+  emissions: {
+    landfill: { value: 0.04, source: 'Plastics are inert in landfill; covers haulage and site operations' },
+    incineration: { value: 2.3, source: 'Provisional: fossil carbon released on combustion, net of the energy-from-waste electricity credit, pending a cited factor' },
+    pyrolysis: { value: 0.55, source: 'Provisional: process energy per tonne of feed, with the gas reused for process heat' },
+  },
+  oilDisplacement: { value: 0.4, source: 'Provisional: cradle-to-gate emissions of the fossil naphtha that Itero-Oil replaces, pending a cited factor' },
+};
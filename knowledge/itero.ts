@@ -0,0 +1,47 @@
+
+import { IteroInfo } from '../types.ts';
+
+// Source of truth for everything the assistant and the UI say about Itero.
+// Edit facts here, bump `version` and `updated`; the system instruction and the
+// feedstock panel are generated from this file and checked at build time.
+export const ITERO_KNOWLEDGE: IteroInfo = {
+  version: '1.0.0',
+  updated: '2026-10-19',
+  name: 'Itero Technologies',
+  shortName: 'Itero',
+  summary: 'Itero uses a patented modular chemical recycling (pyrolysis) process to transform plastic waste that cannot be mechanically recycled into high-quality chemical feedstock (Itero-Oil).',
+  mission: 'To enable a circular economy for plastics by diverting waste from landfill and incineration and providing sustainable raw materials for the petrochemical industry to create new, virgin-quality plastics.',
+  wlpp: {
+    name: 'West London Pilot Plant',
+    code: 'WLPP',
+    description: 'This is our state-of-the-art testing facility. It is used for R&D, feed testing for various waste streams, and proving our modular technology at scale.',
+  },
+  wasteTypes: {
+    accepted: [
+      { name: 'LDPE (Low-Density Polyethylene)', polymers: ['PE'] },
+      { name: 'HDPE (High-Density Polyethylene)', polymers: ['PE'] },
+      { name: 'PP (Polypropylene)', polymers: ['PP'] },
+      { name: 'PS (Polystyrene)', polymers: ['PS'] },
+      { name: 'Mixed Polyolefins', polymers: ['PE', 'PP'] },
+    ],
+    rejected: [
+      { name: 'PVC (Polyvinyl Chloride)', polymers: ['PVC'], condition: 'in high concentrations' },
+      { name: 'PET (Polyethylene Terephthalate)', polymers: ['PET'], condition: 'in large quantities' },
+      { name: 'Wet or organic waste', polymers: [], condition: 'with high moisture or organic content' },
+    ],
+  },
+  contacts: [
+    { role: 'technical', label: 'Technical team', email: 'info@itero-tech.com' },
+  ],
+  faqs: [
+    {
+      question: 'Does chemical recycling compete with mechanical recycling?',
+      answer: 'No. Chemical recycling is complementary: it handles plastic waste that cannot be mechanically recycled.',
+    },
+    {
+      question: 'What is Itero-Oil used for?',
+      answer: 'It is a chemical feedstock that the petrochemical industry uses to make new, virgin-quality plastics.',
+    },
+  ],
+  tone: 'Professional, innovative, environmentally conscious, and helpful.',
+};
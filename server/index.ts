@@ -0,0 +1,157 @@
+
+import http from 'node:http';
+import { GoogleGenAI } from '@google/genai';
+import { LIVE_MODEL } from '../constants.ts';
+import { RateLimiter } from './rateLimit.ts';
+
+// Holds the Gemini API key and hands the browser single-use ephemeral tokens for the
+// Live API, so the key itself never reaches the client bundle.
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the real environment.
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY;
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '';
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+const SESSION_MAX_MINUTES = Number(process.env.SESSION_MAX_MINUTES) || 15;
+const TOKENS_PER_WINDOW = Number(process.env.TOKENS_PER_WINDOW) || 20;
+const RATE_WINDOW_MINUTES = Number(process.env.RATE_WINDOW_MINUTES) || 15;
+const ENQUIRY_WEBHOOK_URL = process.env.ENQUIRY_WEBHOOK_URL || '';
+// How long the browser has to open the Live socket after receiving a token.
+const NEW_SESSION_WINDOW_MS = 60 * 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+
+const ai = API_KEY ? new GoogleGenAI({ apiKey: API_KEY, httpOptions: { apiVersion: 'v1alpha' } }) : null;
+const limiter = new RateLimiter(TOKENS_PER_WINDOW, RATE_WINDOW_MINUTES * 60 * 1000);
+const enquiryLimiter = new RateLimiter(10, 60 * 60 * 1000);
+setInterval(() => {
+  limiter.prune();
+  enquiryLimiter.prune();
+}, 60 * 1000).unref();
+
+const clientIp = (req: http.IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: http.IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new Error('Request body is not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Forwards confirmed enquiries to the configured webhook. Without one this acts as a
+// local stub and just logs them, which is enough for development.
+async function relayEnquiry(req: http.IncomingMessage, res: http.ServerResponse) {
+  const retryAfterMs = enquiryLimiter.consume(clientIp(req));
+  if (retryAfterMs > 0) return sendJson(res, 429, { error: 'Too many enquiries from this network.' });
+
+  let draft: any;
+  try {
+    draft = await readJsonBody(req);
+  } catch (err: any) {
+    return sendJson(res, 400, { error: err.message });
+  }
+  if (typeof draft?.enquiry?.question !== 'string' || !draft.enquiry.question.trim()) {
+    return sendJson(res, 400, { error: 'Enquiry must include a question.' });
+  }
+
+  if (!ENQUIRY_WEBHOOK_URL) {
+    console.log('Enquiry received (no ENQUIRY_WEBHOOK_URL set):', JSON.stringify(draft, null, 2));
+    return sendJson(res, 202, { id: draft.id, delivered: false });
+  }
+  try {
+    const response = await fetch(ENQUIRY_WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'enquiry', receivedAt: new Date().toISOString(), ...draft }),
+    });
+    if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
+    sendJson(res, 202, { id: draft.id, delivered: true });
+  } catch (err: any) {
+    console.error('Enquiry webhook failed:', err?.message || err);
+    sendJson(res, 502, { error: 'Enquiry could not be delivered. Please try again or download it instead.' });
+  }
+}
+
+async function issueToken(req: http.IncomingMessage, res: http.ServerResponse) {
+  if (!ai) return sendJson(res, 503, { error: 'Backend is not configured with an API key.' });
+
+  const retryAfterMs = limiter.consume(clientIp(req));
+  if (retryAfterMs > 0) {
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
+    return sendJson(res, 429, { error: 'Too many sessions from this network.', retryAfter }, { 'Retry-After': String(retryAfter) });
+  }
+
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_MAX_MINUTES * 60 * 1000).toISOString();
+  try {
+    const token = await ai.authTokens.create({
+      config: {
+        uses: 1,
+        expireTime: expiresAt,
+        newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      },
+    });
+    sendJson(res, 200, { token: token.name, expiresAt, model: LIVE_MODEL });
+  } catch (err: any) {
+    console.error('Token request failed:', err?.message || err);
+    sendJson(res, 502, { error: 'Could not obtain a session token.' });
+  }
+}
+
+const server = http.createServer((req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  if (req.method === 'GET' && pathname === '/api/health') {
+    return sendJson(res, ai ? 200 : 503, { ok: !!ai, model: LIVE_MODEL, sessionMaxMinutes: SESSION_MAX_MINUTES });
+  }
+  if (req.method === 'POST' && pathname === '/api/live-token') {
+    issueToken(req, res);
+    return;
+  }
+  if (req.method === 'POST' && pathname === '/api/enquiries') {
+    relayEnquiry(req, res);
+    return;
+  }
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Itero backend listening on :${PORT}${ai ? '' : ' (GEMINI_API_KEY missing)'}`);
+});
@@ -0,0 +1,28 @@
+
+/**
+ * Sliding-window limiter keyed by client IP. State is in memory, which is fine for the
+ * single small instance this backend runs as; a restart simply forgets past requests.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  /** Records a hit and returns 0 if it is allowed, otherwise the ms until the next slot frees up. */
+  consume(key: string, now: number = Date.now()): number {
+    const recent = (this.hits.get(key) || []).filter(t => now - t < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  prune(now: number = Date.now()) {
+    this.hits.forEach((times, key) => {
+      if (times.every(t => now - t >= this.windowMs)) this.hits.delete(key);
+    });
+  }
+}
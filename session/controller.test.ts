@@ -0,0 +1,557 @@
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionStatus, InputMode, SessionMetrics, SpeakingState } from '../types.ts';
+import { DEFAULT_VOICE, LANGUAGES, LIVE_MODEL, LIVE_TEXT_MODEL, PROMPT_VERSION } from '../constants.ts';
+import { FEEDSTOCK_TOOL_NAME } from '../utils/feedstock.ts';
+import { ReconnectManager } from '../utils/reconnect.ts';
+import { EndedSession, SessionController, SessionSettings } from './controller.ts';
+import { FakeLiveTransport, FakeConnectScript } from './fakeTransport.ts';
+import { FakeEnvironment } from './fakeAudio.ts';
+import {
+  INTERRUPTED_TURN,
+  TEXT_TURN,
+  VOICE_TURN,
+  audioChunk,
+  inputTranscript,
+  interrupted,
+  outputTranscript,
+  resumptionUpdate,
+  toolCall,
+  turnComplete,
+} from './fixtures.ts';
+
+const VOICE_SETTINGS: SessionSettings = { voiceReplies: true, language: LANGUAGES[0], voice: DEFAULT_VOICE, record: false };
+const TEXT_SETTINGS: SessionSettings = { ...VOICE_SETTINGS, voiceReplies: false };
+
+// Three quick retries so reconnect tests don't depend on the production backoff.
+const testReconnect = () => new ReconnectManager({ baseDelayMs: 100, maxDelayMs: 400, maxAttempts: 3 });
+
+const setup = (scripts: FakeConnectScript[] = [], { micAvailable = true } = {}) => {
+  const transport = new FakeLiveTransport(scripts);
+  const environment = new FakeEnvironment(micAvailable);
+  const ended: EndedSession[] = [];
+  const metrics: SessionMetrics[] = [];
+  const onToolCall = vi.fn((call) => ({ id: call.id, name: call.name, response: { result: 'ok' } }));
+  const controller = new SessionController({
+    transport,
+    environment,
+    reconnect: testReconnect(),
+    onToolCall,
+    onSessionEnd: session => { ended.push(session); },
+    onMetrics: m => { metrics.push(m); },
+  });
+  return { transport, environment, controller, ended, metrics, onToolCall };
+};
+
+// Lets queued `withSession` sends run; they wait on the already-settled session promise.
+const flush = () => new Promise<void>(resolve => queueMicrotask(resolve));
+
+describe('SessionController', () => {
+  describe('starting', () => {
+    it('connects with the model, voice and language from the settings', async () => {
+      const { controller, transport } = setup();
+      await controller.start(VOICE_SETTINGS);
+
+      expect(controller.getState().status).toBe(ConnectionStatus.CONNECTED);
+      const [request] = transport.requests;
+      expect(request.model).toBe(LIVE_MODEL);
+      expect(request.config.speechConfig?.languageCode).toBe(LANGUAGES[0].code);
+      expect(request.config.speechConfig?.voiceConfig?.prebuiltVoiceConfig?.voiceName).toBe(DEFAULT_VOICE);
+      expect(request.config.sessionResumption?.handle).toBeUndefined();
+    });
+
+    it('asks a text-only session for text replies without speech config', async () => {
+      const { controller, transport } = setup();
+      await controller.start(TEXT_SETTINGS);
+
+      const [request] = transport.requests;
+      expect(request.model).toBe(LIVE_TEXT_MODEL);
+      expect(request.config.speechConfig).toBeUndefined();
+    });
+
+    it('describes the host page in the system instruction when embedded', async () => {
+      const { controller, transport } = setup([{}, {}]);
+      await controller.start(VOICE_SETTINGS);
+      await controller.stop();
+      await controller.start({ ...VOICE_SETTINGS, context: 'page: WLPP' });
+
+      expect(String(transport.requests[0].config.systemInstruction)).not.toContain('Page context');
+      expect(String(transport.requests[1].config.systemInstruction)).toContain('describes itself as: "page: WLPP"');
+    });
+
+    it('stays usable for text without a microphone', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { controller, environment } = setup([], { micAvailable: false });
+      await controller.start(VOICE_SETTINGS);
+
+      expect(controller.getState()).toMatchObject({ status: ConnectionStatus.CONNECTED, micAvailable: false });
+      expect(controller.analysers?.input).toBeNull();
+      expect(environment.contexts).toHaveLength(1);
+    });
+  });
+
+  describe('turns', () => {
+    it('accumulates transcription until the turn completes, then moves it to history', async () => {
+      const { controller, transport } = setup([{ messages: VOICE_TURN.slice(0, -1) }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      expect(controller.getState()).toMatchObject({
+        pendingInput: 'Do you take polystyrene?',
+        pendingOutput: 'Yes, polystyrene is accepted.',
+        history: [],
+      });
+
+      await transport.lastSession!.deliver(turnComplete());
+      const { history, pendingInput, pendingOutput } = controller.getState();
+      expect(pendingInput).toBe('');
+      expect(pendingOutput).toBe('');
+      expect(history.map(m => [m.role, m.text, m.modality])).toEqual([
+        ['user', 'Do you take polystyrene?', 'voice'],
+        ['model', 'Yes, polystyrene is accepted.', 'voice'],
+      ]);
+    });
+
+    it('schedules reply audio back to back and hands the floor back on turn complete', async () => {
+      const { controller, transport, environment } = setup([{ messages: VOICE_TURN.slice(0, -1) }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      const played = environment.outputContext.createdSources;
+      expect(played.map(s => s.startedAt)).toEqual([0, 0.5]);
+      expect(controller.sources.size).toBe(2);
+      expect(controller.speakingTracker.update(-100, -100, 0)).toBe(SpeakingState.AGENT_SPEAKING);
+
+      await transport.lastSession!.deliver(turnComplete());
+      expect(controller.speakingTracker.update(-100, -100, 10_000)).toBe(SpeakingState.LISTENING);
+    });
+
+    it('stops and clears queued audio when the caller interrupts', async () => {
+      const { controller, transport, environment } = setup([{ messages: INTERRUPTED_TURN }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      const played = environment.outputContext.createdSources;
+      expect(played).toHaveLength(2);
+      expect(played.every(s => s.stopped)).toBe(true);
+      expect(controller.sources.size).toBe(0);
+
+      // Playback starts afresh rather than after the audio that was cut off.
+      environment.outputContext.currentTime = 0.25;
+      await transport.lastSession!.deliver(audioChunk(0.5));
+      expect(played[2].startedAt).toBe(0.25);
+    });
+
+    it('keeps the transcript of an interrupted turn', async () => {
+      const { controller, transport } = setup([{ messages: INTERRUPTED_TURN }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      expect(controller.getState().history.map(m => m.text)).toEqual(['What about PVC? Sorry, I meant PET.', 'PVC is ']);
+    });
+
+    it('collects text parts, skipping thoughts, on a text-only session', async () => {
+      const { controller, transport, environment } = setup([{ messages: TEXT_TURN }]);
+      await controller.start(TEXT_SETTINGS);
+      await transport.replayed();
+
+      expect(environment.outputContext.createdSources).toHaveLength(0);
+      expect(controller.getState().history).toMatchObject([
+        { role: 'model', text: 'Our plants take mixed polyolefins.', modality: 'text' },
+      ]);
+    });
+
+    it('answers tool calls through the handler', async () => {
+      const call = { id: 'call-1', name: FEEDSTOCK_TOOL_NAME, args: { wasteType: 'PE' } };
+      const { controller, transport, onToolCall } = setup([{ messages: [toolCall(call)] }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await flush();
+
+      expect(onToolCall).toHaveBeenCalledWith(call, expect.objectContaining({ status: ConnectionStatus.CONNECTED }), VOICE_SETTINGS);
+      expect(transport.lastSession!.toolResponses).toEqual([
+        { functionResponses: [{ id: 'call-1', name: FEEDSTOCK_TOOL_NAME, response: { result: 'ok' } }] },
+      ]);
+    });
+  });
+
+  describe('input', () => {
+    it('sends typed messages as a complete client turn and records them', async () => {
+      const { controller, transport } = setup();
+      await controller.start(VOICE_SETTINGS);
+      controller.sendText('  Hello there ');
+      controller.sendText('   ');
+      await flush();
+
+      expect(transport.lastSession!.clientContent).toEqual([
+        { turns: [{ role: 'user', parts: [{ text: 'Hello there' }] }], turnComplete: true },
+      ]);
+      expect(controller.getState().history).toMatchObject([{ role: 'user', text: 'Hello there', modality: 'text' }]);
+    });
+
+    it('records speech the caller started before typing ahead of the typed message', async () => {
+      const { controller, transport } = setup([{ messages: [inputTranscript('We have some film')] }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      controller.sendText('About 40 tonnes a month');
+      await transport.lastSession!.deliver(outputTranscript('We can take that.'));
+      await transport.lastSession!.deliver(turnComplete());
+
+      expect(controller.getState().history.map(m => [m.role, m.text, m.modality])).toEqual([
+        ['user', 'We have some film', 'voice'],
+        ['user', 'About 40 tonnes a month', 'text'],
+        ['model', 'We can take that.', 'voice'],
+      ]);
+    });
+
+    it('streams microphone audio unless muted', async () => {
+      const { controller, transport, environment } = setup();
+      await controller.start(VOICE_SETTINGS);
+
+      environment.speak(new Float32Array(512));
+      await flush();
+      expect(transport.lastSession!.realtimeInput).toHaveLength(1);
+      expect(controller.getState().isTransmitting).toBe(true);
+
+      controller.setMuted(true);
+      environment.speak(new Float32Array(512));
+      await flush();
+      // Muting closes the utterance instead of sending more audio.
+      expect(transport.lastSession!.realtimeInput.slice(1)).toEqual([{ audioStreamEnd: true }]);
+      expect(controller.getState().isTransmitting).toBe(false);
+    });
+
+    it('only streams push-to-talk audio while the key is held', async () => {
+      const { controller, transport, environment } = setup();
+      await controller.start(VOICE_SETTINGS);
+      controller.setInputMode(InputMode.PUSH_TO_TALK);
+
+      environment.speak(new Float32Array(512));
+      controller.setPushing(true);
+      environment.speak(new Float32Array(512));
+      await flush();
+
+      expect(transport.lastSession!.realtimeInput).toHaveLength(1);
+      expect(transport.lastSession!.realtimeInput[0].media?.mimeType).toBe('audio/pcm;rate=16000');
+    });
+  });
+
+  describe('images', () => {
+    const FRAME = 'data:image/jpeg;base64,AAAA';
+    const PHOTO = 'data:image/jpeg;base64,BBBB';
+
+    it('streams camera frames and keeps the latest with the caller turn', async () => {
+      const { controller, transport, environment } = setup();
+      await controller.start(VOICE_SETTINGS);
+      await controller.startCamera();
+      environment.showFrame('data:image/jpeg;base64,OLD');
+      environment.showFrame(FRAME);
+      await flush();
+
+      expect(transport.lastSession!.realtimeInput.map(i => i.media)).toEqual([
+        { data: 'OLD', mimeType: 'image/jpeg' },
+        { data: 'AAAA', mimeType: 'image/jpeg' },
+      ]);
+      expect(controller.getState().pendingImages.map(i => i.dataUrl)).toEqual([FRAME]);
+
+      await transport.lastSession!.deliver(inputTranscript('Is this bale OK?'), outputTranscript('It looks like PP.'), turnComplete());
+      const [question, answer] = controller.getState().history;
+      expect(question.images).toMatchObject([{ dataUrl: FRAME, source: 'camera' }]);
+      expect(answer.images).toBeUndefined();
+      expect(controller.getState().pendingImages).toEqual([]);
+    });
+
+    it('attaches a picture shown without a word to the reply that discussed it', async () => {
+      const { controller, transport } = setup();
+      await controller.start(VOICE_SETTINGS);
+      controller.sendImage(PHOTO);
+      await transport.lastSession!.deliver(outputTranscript('That is resin code 5.'), turnComplete());
+
+      expect(controller.getState().history).toMatchObject([{ role: 'model', images: [{ dataUrl: PHOTO, source: 'upload' }] }]);
+    });
+
+    it('attaches pending pictures to a typed message', async () => {
+      const { controller } = setup();
+      await controller.start(VOICE_SETTINGS);
+      controller.sendImage(PHOTO);
+      controller.sendText('What is this?');
+
+      expect(controller.getState().history[0].images).toMatchObject([{ dataUrl: PHOTO }]);
+    });
+
+    it('marks the camera unavailable when it is refused, and releases it on stop', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { controller, environment } = setup();
+      await controller.start(VOICE_SETTINGS);
+      environment.cameraAvailable = false;
+      await controller.startCamera();
+      expect(controller.getState()).toMatchObject({ cameraAvailable: false, cameraStream: null });
+
+      environment.cameraAvailable = true;
+      await controller.startCamera();
+      expect(controller.getState().cameraStream).not.toBeNull();
+      await controller.stop();
+      expect(controller.getState().cameraStream).toBeNull();
+      environment.showFrame(FRAME);
+      expect(controller.getState().pendingImages).toEqual([]);
+    });
+  });
+
+  describe('errors and reconnects', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('reports a connection that never opens', async () => {
+      const { controller } = setup([{ failWith: 'Backend unreachable' }]);
+      await controller.start(VOICE_SETTINGS);
+
+      expect(controller.getState()).toMatchObject({
+        status: ConnectionStatus.ERROR,
+        notice: { key: 'errorConnectFailed', detail: 'Backend unreachable' },
+      });
+    });
+
+    it('reports a failure while setting up audio', async () => {
+      const { controller, environment } = setup();
+      environment.startCapture = async () => { throw new Error('AudioWorklet is not supported in this browser.'); };
+      await controller.start(VOICE_SETTINGS);
+
+      expect(controller.getState()).toMatchObject({
+        status: ConnectionStatus.ERROR,
+        notice: { key: 'errorStartFailed', detail: 'AudioWorklet is not supported in this browser.' },
+      });
+    });
+
+    it('reconnects with the resumption handle after a drop and keeps the partial transcript', async () => {
+      const { controller, transport } = setup([
+        { messages: [resumptionUpdate('handle-1'), inputTranscript('Is PET ')], end: 'close' },
+        { messages: [inputTranscript('accepted?'), outputTranscript('It is.'), turnComplete()] },
+      ]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      expect(controller.getState()).toMatchObject({ status: ConnectionStatus.RECONNECTING, reconnectAttempt: 1 });
+      expect(controller.getState().notice?.key).toBe('errorRetrying');
+
+      await vi.runOnlyPendingTimersAsync();
+      await transport.replayed();
+
+      expect(transport.requests).toHaveLength(2);
+      expect(transport.requests[1].config.sessionResumption?.handle).toBe('handle-1');
+      expect(transport.sessions[0].closed).toBe(true);
+      expect(controller.getState()).toMatchObject({ status: ConnectionStatus.CONNECTED, reconnectAttempt: 0, notice: null });
+      expect(controller.getState().history.map(m => m.text)).toEqual(['Is PET accepted?', 'It is.']);
+    });
+
+    it('ignores messages from a session that has been replaced', async () => {
+      const { controller, transport } = setup([{ end: 'error' }, {}]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await vi.runOnlyPendingTimersAsync();
+
+      await transport.sessions[0].deliver(inputTranscript('stale'), turnComplete());
+      expect(controller.getState().history).toEqual([]);
+    });
+
+    it('gives up once reconnect attempts are exhausted', async () => {
+      const { controller, transport } = setup([
+        { end: 'close' },
+        { failWith: 'down' },
+        { failWith: 'down' },
+        { failWith: 'down' },
+      ]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        expect(controller.getState().reconnectAttempt).toBe(attempt);
+        await vi.runOnlyPendingTimersAsync();
+      }
+
+      expect(transport.requests).toHaveLength(4);
+      expect(controller.getState()).toMatchObject({ status: ConnectionStatus.ERROR, notice: { key: 'errorConnectionLost' } });
+    });
+
+    it('ends the consultation when the credentials expire', async () => {
+      const { controller, transport } = setup([{ expiresAt: new Date(Date.now() + 60_000) }]);
+      await controller.start(VOICE_SETTINGS);
+
+      vi.advanceTimersByTime(60_000);
+      expect(controller.getState().status).toBe(ConnectionStatus.DISCONNECTED);
+      expect(transport.lastSession!.closed).toBe(true);
+    });
+  });
+
+  describe('stopping', () => {
+    it('hands the session to onSessionEnd once and releases audio', async () => {
+      const { controller, transport, environment, ended } = setup([{ messages: VOICE_TURN }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await controller.stop();
+      await controller.stop();
+
+      expect(ended).toHaveLength(1);
+      expect(ended[0].messages).toHaveLength(2);
+      expect(ended[0].settings).toBe(VOICE_SETTINGS);
+      expect(ended[0].recording).toBeUndefined();
+      expect(environment.captureStopped).toBe(true);
+      expect(environment.contexts.every(ctx => ctx.state === 'closed')).toBe(true);
+      expect(transport.lastSession!.closed).toBe(true);
+      expect(controller.getState().status).toBe(ConnectionStatus.DISCONNECTED);
+    });
+
+    it('stays stopped when stopped while connecting, releasing the microphone and audio', async () => {
+      const { controller, transport, environment } = setup();
+      const connect = transport.connect.bind(transport);
+      transport.connect = request => {
+        const connection = connect(request);
+        controller.stop();
+        return connection;
+      };
+      await controller.start(VOICE_SETTINGS);
+      await flush();
+
+      expect(controller.getState().status).toBe(ConnectionStatus.DISCONNECTED);
+      expect(transport.lastSession!.closed).toBe(true);
+      expect(environment.captureStopped).toBe(true);
+      expect(environment.contexts.map(ctx => ctx.state)).toEqual(['closed', 'closed']);
+    });
+
+    it('releases what a cancelled start acquired when a new session starts straight away', async () => {
+      const { controller, transport, environment } = setup();
+      const first = controller.start(VOICE_SETTINGS);
+      controller.stop();
+      const second = controller.start(VOICE_SETTINGS);
+      await Promise.all([first, second]);
+
+      expect(controller.getState().status).toBe(ConnectionStatus.CONNECTED);
+      expect(transport.sessions).toHaveLength(1);
+      expect(environment.contexts.map(ctx => ctx.state)).toEqual(['running', 'running']);
+    });
+
+    it('ignores a second start while the first is still connecting', async () => {
+      const { controller, transport, environment } = setup();
+      await Promise.all([controller.start(VOICE_SETTINGS), controller.start(VOICE_SETTINGS)]);
+
+      expect(transport.requests).toHaveLength(1);
+      expect(environment.contexts.map(ctx => ctx.state)).toEqual(['running', 'running']);
+    });
+
+    it('keeps a turn that was still in progress when the session ended', async () => {
+      const { controller, transport, ended } = setup([{ messages: VOICE_TURN.slice(0, -1) }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await controller.stop();
+
+      expect(ended[0].messages.map(m => [m.role, m.text, m.modality])).toEqual([
+        ['user', 'Do you take polystyrene?', 'voice'],
+        ['model', 'Yes, polystyrene is accepted.', 'voice'],
+      ]);
+      expect(controller.getState()).toMatchObject({ pendingInput: '', pendingOutput: '' });
+    });
+
+    it('skips sessions without any messages', async () => {
+      const { controller, ended } = setup();
+      await controller.start(VOICE_SETTINGS);
+      await controller.stop();
+
+      expect(ended).toEqual([]);
+    });
+
+    it('includes the recording when one was requested', async () => {
+      const { controller, transport, ended } = setup([{ messages: VOICE_TURN }]);
+      await controller.start({ ...VOICE_SETTINGS, record: true });
+      await transport.replayed();
+      await controller.stop();
+
+      expect(ended[0].recording?.durationSeconds).toBeCloseTo(1);
+      expect(ended[0].recording?.blob.type).toBe('audio/wav');
+    });
+  });
+
+  describe('metrics', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2026-03-02T10:00:00Z'));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('times each reply from the last thing the caller said or typed', async () => {
+      const { controller, transport, metrics } = setup();
+      await controller.start(VOICE_SETTINGS);
+      const session = transport.lastSession!;
+
+      await session.deliver(inputTranscript('Do you take PS?'));
+      vi.advanceTimersByTime(800);
+      await session.deliver(audioChunk(0.2), outputTranscript('Yes.'));
+      vi.advanceTimersByTime(300);
+      // Late transcription of the caller while the agent replies does not restart the clock.
+      await session.deliver(inputTranscript(' please'), audioChunk(0.2), turnComplete());
+
+      controller.sendText('And PET?');
+      vi.advanceTimersByTime(1200);
+      await session.deliver(audioChunk(0.2), interrupted(), turnComplete());
+
+      vi.advanceTimersByTime(500);
+      await controller.stop();
+
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0]).toMatchObject({
+        promptVersion: PROMPT_VERSION,
+        language: 'en-GB',
+        voiceReplies: true,
+        turns: 2,
+        interruptions: 1,
+        firstReplyLatenciesMs: [800, 1200],
+        durationSeconds: 2.8,
+        endReason: 'stopped',
+      });
+    });
+
+    it('counts replies that hand the caller over to the technical team', async () => {
+      const { controller, transport, metrics } = setup([{
+        messages: [
+          ...VOICE_TURN,
+          inputTranscript('What is the exact reactor residence time?'),
+          outputTranscript('Please email info at itero tech dot com for that.'),
+          turnComplete(),
+        ],
+      }]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await controller.stop();
+
+      expect(metrics[0]).toMatchObject({ turns: 2, deflections: 1 });
+    });
+
+    it('records why a session failed even when it never connected', async () => {
+      const { controller, metrics, ended } = setup([{ failWith: 'Backend unreachable' }]);
+      await controller.start(VOICE_SETTINGS);
+
+      expect(ended).toEqual([]);
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0]).toMatchObject({ durationSeconds: 0, errors: ['Backend unreachable'], endReason: 'connect_failed' });
+    });
+
+    it('counts reconnects and marks sessions cut short by expiring credentials', async () => {
+      const { controller, transport, metrics } = setup([{ end: 'close', expiresAt: new Date(Date.now() + 60_000) }, {}]);
+      await controller.start(VOICE_SETTINGS);
+      await transport.replayed();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(controller.getState().status).toBe(ConnectionStatus.CONNECTED);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0]).toMatchObject({ reconnects: 1, errors: ['Closed (no code)'], endReason: 'expired' });
+    });
+  });
+});
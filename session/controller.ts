@@ -0,0 +1,606 @@
+
+import { FunctionCall, FunctionResponse, LiveServerMessage, Modality } from '@google/genai';
+import { AudioAnalysers, ConnectionStatus, ImageSource, InputMode, LanguageOption, Message, MessageImage, MessageModality, SessionEndReason, SessionMetrics } from '../types.ts';
+import { CAPTURE_SAMPLE_RATE, DEFLECTION_EMAIL, ITERO_SYSTEM_INSTRUCTION, LIVE_MODEL, LIVE_TEXT_MODEL, PROMPT_VERSION } from '../constants.ts';
+import { MessageKey } from '../i18n/en.ts';
+import { decode, decodeAudioData, createBlob } from '../utils/audio.ts';
+import { startAudioCapture, AudioCapture } from '../utils/capture.ts';
+import { dataUrlToBlob, getCameraStream, startFrameCapture, FrameCapture } from '../utils/camera.ts';
+import { ReconnectManager } from '../utils/reconnect.ts';
+import { ConsultationRecorder } from '../utils/recorder.ts';
+import { SpeakingTracker, VoiceGate } from '../utils/vad.ts';
+import { hostContextDirective, languageDirective } from '../utils/knowledge.ts';
+import { feedstockToolDeclaration } from '../utils/feedstock.ts';
+import { telemetryToolDeclaration } from '../utils/telemetry.ts';
+import { enquiryToolDeclaration } from '../utils/enquiry.ts';
+import { impactToolDeclaration } from '../utils/impact.ts';
+import { LiveSessionHandle, LiveTransport } from './transport.ts';
+import { SessionMetricsCollector } from './metrics.ts';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+const ANALYSER_FFT_SIZE = 1024;
+
+/** Fixed for the lifetime of a session so reconnects ask for the same reply modality, language and voice. */
+export interface SessionSettings {
+  voiceReplies: boolean;
+  language: LanguageOption;
+  voice: string;
+  record: boolean;
+  /** Set when the assistant is embedded; describes the host page for the system instruction. */
+  context?: string;
+}
+
+/** A status line for the UI: a catalog message, or the raw error text when there is one. */
+export interface SessionNotice {
+  key: MessageKey;
+  params?: Record<string, string | number>;
+  detail?: string;
+}
+
+export interface SessionState {
+  status: ConnectionStatus;
+  notice: SessionNotice | null;
+  reconnectAttempt: number;
+  /** Every message since the page loaded, across sessions. */
+  history: Message[];
+  pendingInput: string;
+  pendingOutput: string;
+  micAvailable: boolean;
+  isMuted: boolean;
+  inputMode: InputMode;
+  isTransmitting: boolean;
+  /** Live camera feed while the caller is showing something, for the preview. */
+  cameraStream: MediaStream | null;
+  cameraAvailable: boolean;
+  /** Pictures shown during the turn in progress; they move to its transcript entry when it completes. */
+  pendingImages: MessageImage[];
+}
+
+export interface EndedSession {
+  startedAt: Date;
+  endedAt: Date;
+  messages: Message[];
+  settings: SessionSettings;
+  recording?: { blob: Blob; durationSeconds: number };
+}
+
+/** Browser services the controller needs, injectable so tests can run without them. */
+export interface SessionEnvironment {
+  createAudioContext(options?: AudioContextOptions): AudioContext;
+  getUserMedia(): Promise<MediaStream>;
+  startCapture(ctx: AudioContext, stream: MediaStream, onChunk: (chunk: Float32Array) => void): Promise<AudioCapture>;
+  getCamera(): Promise<MediaStream>;
+  startFrameCapture(stream: MediaStream, onFrame: (dataUrl: string) => void): Promise<FrameCapture>;
+}
+
+export const browserEnvironment: SessionEnvironment = {
+  createAudioContext: options => new ((window as any).AudioContext || (window as any).webkitAudioContext)(options),
+  getUserMedia: () => navigator.mediaDevices.getUserMedia({ audio: true }),
+  startCapture: startAudioCapture,
+  getCamera: getCameraStream,
+  startFrameCapture: (stream, onFrame) => startFrameCapture(stream, onFrame),
+};
+
+export interface SessionControllerOptions {
+  transport: LiveTransport;
+  environment?: SessionEnvironment;
+  reconnect?: ReconnectManager;
+  onToolCall: (call: FunctionCall, state: SessionState, settings: SessionSettings) => FunctionResponse;
+  /** Called once per session that produced any messages; `stop` waits for it. */
+  onSessionEnd?: (session: EndedSession) => Promise<void> | void;
+  /** Called once per `start`, including sessions that never connected; `stop` waits for it too. */
+  onMetrics?: (metrics: SessionMetrics) => Promise<void> | void;
+}
+
+const INITIAL_STATE: SessionState = {
+  status: ConnectionStatus.DISCONNECTED,
+  notice: null,
+  reconnectAttempt: 0,
+  history: [],
+  pendingInput: '',
+  pendingOutput: '',
+  micAvailable: true,
+  isMuted: false,
+  inputMode: InputMode.ALWAYS_ON,
+  isTransmitting: false,
+  cameraStream: null,
+  cameraAvailable: true,
+  pendingImages: [],
+};
+
+const createAnalyser = (ctx: AudioContext) => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = ANALYSER_FFT_SIZE;
+  return analyser;
+};
+
+/**
+ * Owns one Live consultation at a time: the audio graph, the connection and its
+ * reconnects, input routing and turn assembly. The UI reads `getState()` and
+ * subscribes to changes; nothing here depends on React.
+ */
+export class SessionController {
+  readonly speakingTracker = new SpeakingTracker();
+  /** Agent audio that is scheduled or playing. */
+  readonly sources = new Set<AudioBufferSourceNode>();
+  readonly reconnect: ReconnectManager;
+  analysers: AudioAnalysers | null = null;
+
+  private state = INITIAL_STATE;
+  private listeners = new Set<() => void>();
+  private settings: SessionSettings | null = null;
+  private transport: LiveTransport;
+  private environment: SessionEnvironment;
+
+  private inputContext: AudioContext | null = null;
+  private outputContext: AudioContext | null = null;
+  private outputNode: GainNode | null = null;
+  private nextStartTime = 0;
+  private stream: MediaStream | null = null;
+  private capture: AudioCapture | null = null;
+  private session: LiveSessionHandle | null = null;
+  private sessionPromise: Promise<LiveSessionHandle> | null = null;
+  // Bumped on every (re)connect and teardown so callbacks from a dropped socket are ignored.
+  private connectionId = 0;
+  // Bumped by every teardown, so a start still awaiting audio or the connection can tell it was cancelled.
+  private startId = 0;
+  private isLive = false;
+  private hasConnected = false;
+  private startedAt: Date | null = null;
+  private sessionTimer: ReturnType<typeof setTimeout> | null = null;
+  private recorder: ConsultationRecorder | null = null;
+  private voiceGate = new VoiceGate();
+  private pushing = false;
+  private frameCapture: FrameCapture | null = null;
+  private metrics: SessionMetricsCollector | null = null;
+
+  constructor(private options: SessionControllerOptions) {
+    this.transport = options.transport;
+    this.environment = options.environment ?? browserEnvironment;
+    this.reconnect = options.reconnect ?? new ReconnectManager();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  };
+
+  getState = (): SessionState => this.state;
+
+  get isTransmitting(): boolean {
+    return this.state.isTransmitting;
+  }
+
+  private setState(patch: Partial<SessionState>) {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Returns whether an entry was added; empty text adds nothing.
+  private appendToHistory(role: Message['role'], text: string, modality: MessageModality, images: MessageImage[] = []): boolean {
+    if (!text.trim()) return false;
+    const message: Message = { role, text, timestamp: new Date(), modality, ...(images.length ? { images } : {}) };
+    this.setState({ history: [...this.state.history, message] });
+    return true;
+  }
+
+  private takePendingImages(): MessageImage[] {
+    const images = this.state.pendingImages;
+    if (images.length) this.setState({ pendingImages: [] });
+    return images;
+  }
+
+  // Moves the transcribed caller and agent text of the current turn into history.
+  private flushPendingTurn(replyModality: MessageModality) {
+    const { pendingInput, pendingOutput } = this.state;
+    const images = this.takePendingImages();
+    this.setState({ pendingInput: '', pendingOutput: '' });
+    // Pictures shown without a word said go with the reply that discussed them.
+    const attached = this.appendToHistory('user', pendingInput, 'voice', images);
+    this.appendToHistory('model', pendingOutput, replyModality, attached ? [] : images);
+  }
+
+  // Queued on the session promise so audio captured while the socket opens is not lost.
+  private withSession(action: (session: LiveSessionHandle) => void) {
+    this.sessionPromise?.then(action, () => {});
+  }
+
+  setMuted(isMuted: boolean) {
+    this.setState({ isMuted });
+  }
+
+  setInputMode(inputMode: InputMode) {
+    this.voiceGate.reset();
+    this.pushing = false;
+    this.setState({ inputMode });
+  }
+
+  setPushing(pushing: boolean) {
+    this.pushing = pushing;
+  }
+
+  private setTransmitting(next: boolean) {
+    if (this.state.isTransmitting === next) return;
+    this.setState({ isTransmitting: next });
+    // Close the utterance straight away instead of waiting for the server to hear silence.
+    if (!next) {
+      this.withSession(session => session.sendRealtimeInput({ audioStreamEnd: true }));
+      this.metrics?.callerInput(Date.now());
+    }
+  }
+
+  private sendAudio(chunks: Float32Array[]) {
+    // Recording what is sent, rather than everything captured, keeps muted and gated audio out of it.
+    if (this.recorder && this.outputContext && chunks.length > 0) {
+      this.recorder.addCallerAudio(chunks, CAPTURE_SAMPLE_RATE, this.outputContext.currentTime);
+    }
+    chunks.forEach(chunk => {
+      const pcmBlob = createBlob(chunk, CAPTURE_SAMPLE_RATE);
+      this.withSession(session => session.sendRealtimeInput({ media: pcmBlob }));
+    });
+  }
+
+  private routeAudioChunk(chunk: Float32Array) {
+    const { isMuted, inputMode } = this.state;
+    if (isMuted && inputMode !== InputMode.PUSH_TO_TALK) {
+      this.setTransmitting(false);
+      return;
+    }
+    switch (inputMode) {
+      case InputMode.PUSH_TO_TALK:
+        this.setTransmitting(this.pushing);
+        if (this.pushing) this.sendAudio([chunk]);
+        break;
+      case InputMode.VOICE_GATE: {
+        const chunks = this.voiceGate.process(chunk);
+        this.setTransmitting(chunks.length > 0);
+        this.sendAudio(chunks);
+        break;
+      }
+      default:
+        this.setTransmitting(true);
+        this.sendAudio([chunk]);
+    }
+  }
+
+  // The model only keeps looking at the latest camera frame, so a turn keeps one of those plus every upload.
+  private showImage(dataUrl: string, source: ImageSource) {
+    if (!this.isLive) return;
+    this.withSession(session => session.sendRealtimeInput({ media: dataUrlToBlob(dataUrl) }));
+    const image: MessageImage = { dataUrl, source, capturedAt: new Date() };
+    const kept = source === 'camera' ? this.state.pendingImages.filter(i => i.source !== 'camera') : this.state.pendingImages;
+    this.setState({ pendingImages: [...kept, image] });
+  }
+
+  /** Starts streaming camera frames into the session; a refused or missing camera marks it unavailable. */
+  async startCamera(): Promise<void> {
+    if (this.state.cameraStream || !this.isLive) return;
+    let stream: MediaStream;
+    try {
+      stream = await this.environment.getCamera();
+    } catch (err) {
+      console.warn("Camera unavailable", err);
+      this.setState({ cameraAvailable: false });
+      return;
+    }
+    // The session may have ended while the permission prompt was open.
+    if (this.state.status === ConnectionStatus.DISCONNECTED || this.state.status === ConnectionStatus.ERROR) {
+      stream.getTracks().forEach(t => t.stop());
+      return;
+    }
+    this.setState({ cameraStream: stream, cameraAvailable: true });
+    try {
+      this.frameCapture = await this.environment.startFrameCapture(stream, dataUrl => this.showImage(dataUrl, 'camera'));
+    } catch (err) {
+      console.warn("Camera preview failed", err);
+      this.stopCamera();
+    }
+  }
+
+  stopCamera() {
+    this.frameCapture?.stop();
+    this.frameCapture = null;
+    this.state.cameraStream?.getTracks().forEach(t => t.stop());
+    if (this.state.cameraStream) this.setState({ cameraStream: null });
+  }
+
+  /** Shows the agent a still image, e.g. a photo of a bale or a spec sheet. */
+  sendImage(dataUrl: string) {
+    this.showImage(dataUrl, 'upload');
+  }
+
+  private stopPlayback() {
+    this.sources.forEach(s => { try { s.stop(); } catch (e) {} });
+    this.sources.clear();
+    this.nextStartTime = 0;
+  }
+
+  // Hands the metrics and messages of the session that is ending to `onMetrics` and `onSessionEnd`;
+  // safe to call more than once.
+  private async persist(reason: SessionEndReason) {
+    const metrics = this.metrics?.finish(reason, Date.now());
+    const startedAt = this.startedAt;
+    const recorder = this.recorder;
+    const settings = this.settings;
+    this.metrics = null;
+    this.startedAt = null;
+    this.recorder = null;
+    // A session ended mid-turn still keeps what was said so far.
+    if (settings) this.flushPendingTurn(settings.voiceReplies ? 'voice' : 'text');
+    const messages = startedAt ? this.state.history.filter(m => m.timestamp >= startedAt) : [];
+    if (metrics) await this.options.onMetrics?.(metrics);
+    if (!startedAt || !settings || messages.length === 0) return;
+    const recording = recorder && !recorder.isEmpty ? { blob: recorder.toWav(), durationSeconds: recorder.duration } : undefined;
+    await this.options.onSessionEnd?.({ startedAt, endedAt: new Date(), messages, settings, recording });
+  }
+
+  private teardown(reason: SessionEndReason): Promise<void> {
+    const persisted = this.persist(reason);
+    this.startId++;
+    this.connectionId++;
+    this.isLive = false;
+    this.hasConnected = false;
+    this.reconnect.clear();
+    if (this.sessionTimer) clearTimeout(this.sessionTimer);
+    this.sessionTimer = null;
+    this.session?.close();
+    this.session = null;
+    this.sessionPromise = null;
+    this.capture?.stop();
+    this.capture = null;
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = null;
+    this.analysers = null;
+    this.speakingTracker.reset();
+    this.inputContext?.close();
+    this.inputContext = null;
+    this.stopPlayback();
+    this.outputContext?.close();
+    this.outputContext = null;
+    this.outputNode = null;
+    this.pushing = false;
+    this.voiceGate.reset();
+    this.stopCamera();
+    this.setState({ reconnectAttempt: 0, isTransmitting: false, pendingInput: '', pendingOutput: '', pendingImages: [] });
+    return persisted;
+  }
+
+  /** Ends the session; resolves once it has been handed to `onMetrics` and `onSessionEnd`. */
+  stop(reason: 'stopped' | 'expired' = 'stopped'): Promise<void> {
+    const persisted = this.teardown(reason);
+    this.setState({ status: ConnectionStatus.DISCONNECTED });
+    return persisted;
+  }
+
+  fail(notice: SessionNotice, reason: SessionEndReason = 'start_failed'): Promise<void> {
+    const persisted = this.teardown(reason);
+    this.setState({ status: ConnectionStatus.ERROR, notice });
+    return persisted;
+  }
+
+  // Transcript history and the partial input/output text are deliberately left untouched here,
+  // so a resumed session carries on from where the dropped one stopped.
+  private handleConnectionLost(detail?: string) {
+    this.connectionId++;
+    this.isLive = false;
+    try { this.session?.close(); } catch (e) {}
+    this.session = null;
+    this.sessionPromise = null;
+    // A turn cut off by the drop never completes, so it must not keep the agent holding the floor.
+    this.speakingTracker.reset();
+
+    if (!this.hasConnected) {
+      this.fail({ key: 'errorConnectFailed', detail }, 'connect_failed');
+      return;
+    }
+    const delay = this.reconnect.schedule(() => this.connect());
+    if (delay === null) {
+      this.fail({ key: 'errorConnectionLost' }, 'connection_lost');
+      return;
+    }
+    this.setState({
+      status: ConnectionStatus.RECONNECTING,
+      reconnectAttempt: this.reconnect.attempts,
+      notice: { key: 'errorRetrying', params: { seconds: Math.ceil(delay / 1000) } },
+    });
+  }
+
+  private async handleMessage(message: LiveServerMessage, settings: SessionSettings) {
+    this.metrics?.message(message, Date.now());
+    const content = message.serverContent;
+    if (message.sessionResumptionUpdate) this.reconnect.updateHandle(message.sessionResumptionUpdate);
+    if (content?.modelTurn) this.speakingTracker.agentTurnStarted();
+
+    const base64Audio = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+    if (base64Audio && this.outputContext && this.outputNode) {
+      const ctx = this.outputContext;
+      const output = this.outputNode;
+      this.nextStartTime = Math.max(this.nextStartTime, ctx.currentTime);
+      const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, OUTPUT_SAMPLE_RATE, 1);
+      const source = ctx.createBufferSource();
+      source.buffer = audioBuffer;
+      source.connect(output);
+      source.onended = () => this.sources.delete(source);
+      source.start(this.nextStartTime);
+      this.recorder?.addAgentAudio(audioBuffer.getChannelData(0), audioBuffer.sampleRate, this.nextStartTime);
+      this.nextStartTime += audioBuffer.duration;
+      this.sources.add(source);
+    }
+
+    if (content?.inputTranscription?.text) this.setState({ pendingInput: this.state.pendingInput + content.inputTranscription.text });
+    if (content?.outputTranscription?.text) this.setState({ pendingOutput: this.state.pendingOutput + content.outputTranscription.text });
+    if (!settings.voiceReplies) {
+      const replyText = content?.modelTurn?.parts?.filter(p => p.text && !p.thought).map(p => p.text).join('');
+      if (replyText) this.setState({ pendingOutput: this.state.pendingOutput + replyText });
+    }
+    if (content?.turnComplete) {
+      this.speakingTracker.turnComplete();
+      this.flushPendingTurn(settings.voiceReplies ? 'voice' : 'text');
+    }
+    if (message.toolCall?.functionCalls) {
+      const functionResponses = message.toolCall.functionCalls.map(call => this.options.onToolCall(call, this.state, settings));
+      this.withSession(session => session.sendToolResponse({ functionResponses }));
+    }
+    if (content?.interrupted) {
+      if (this.outputContext) this.recorder?.truncateAgent(this.outputContext.currentTime);
+      this.speakingTracker.interrupted(performance.now());
+      this.stopPlayback();
+    }
+  }
+
+  // Resolves once the attempt has either opened or been handed to handleConnectionLost; never rejects.
+  private async connect(): Promise<void> {
+    const connectionId = ++this.connectionId;
+    const isCurrent = () => connectionId === this.connectionId;
+    const settings = this.settings!;
+
+    const connection = this.transport.connect({
+      model: settings.voiceReplies ? LIVE_MODEL : LIVE_TEXT_MODEL,
+      config: {
+        responseModalities: [settings.voiceReplies ? Modality.AUDIO : Modality.TEXT],
+        ...(settings.voiceReplies ? {
+          // Native-audio models pick the spoken language themselves; the directive in the system instruction steers them.
+          speechConfig: { languageCode: settings.language.code, voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } } },
+          outputAudioTranscription: {},
+        } : {}),
+        systemInstruction: ITERO_SYSTEM_INSTRUCTION + languageDirective(settings.language) + (settings.context ? hostContextDirective(settings.context) : ''),
+        inputAudioTranscription: {},
+        tools: [{ functionDeclarations: [feedstockToolDeclaration, telemetryToolDeclaration, enquiryToolDeclaration, impactToolDeclaration] }],
+        sessionResumption: { handle: this.reconnect.handle ?? undefined },
+      },
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          this.isLive = true;
+          this.hasConnected = true;
+          if (!this.startedAt) this.startedAt = new Date();
+          this.metrics?.connected(Date.now());
+          this.reconnect.reset();
+          this.setState({ status: ConnectionStatus.CONNECTED, reconnectAttempt: 0, notice: null });
+        },
+        // Returns the handling promise so callers that care (the fake transport) can wait for it.
+        onmessage: (message: LiveServerMessage) => {
+          if (isCurrent()) return this.handleMessage(message, settings);
+        },
+        onerror: (e: ErrorEvent) => {
+          if (!isCurrent()) return;
+          this.metrics?.error(e?.message || 'Connection error');
+          this.handleConnectionLost();
+        },
+        onclose: (e: CloseEvent) => {
+          if (!isCurrent()) return;
+          this.metrics?.error(`Closed (${e?.code ?? 'no code'})${e?.reason ? `: ${e.reason}` : ''}`);
+          this.handleConnectionLost();
+        },
+      },
+    });
+    this.sessionPromise = connection.then(c => c.session);
+    this.sessionPromise.catch(() => {});
+
+    await connection.then(
+      ({ session, expiresAt }) => {
+        if (!isCurrent()) {
+          session.close();
+          return;
+        }
+        this.session = session;
+        // The backend caps session length; the first connection's expiry sets the deadline for the whole consultation.
+        if (expiresAt && !this.sessionTimer) {
+          this.sessionTimer = setTimeout(() => this.stop('expired'), expiresAt.getTime() - Date.now());
+        }
+      },
+      (err) => {
+        if (!isCurrent()) return;
+        this.metrics?.error(err?.message || 'Connection failed');
+        this.handleConnectionLost(err?.message);
+      },
+    );
+  }
+
+  /** Does nothing while a session is starting or running. */
+  async start(settings: SessionSettings): Promise<void> {
+    const { status } = this.state;
+    if (status !== ConnectionStatus.DISCONNECTED && status !== ConnectionStatus.ERROR) return;
+    const startId = ++this.startId;
+    // After a stop() during an await, teardown has released whatever was already stored on the
+    // controller; anything still held only here is released before giving up.
+    const cancelled = () => startId !== this.startId;
+    this.settings = settings;
+    this.metrics = new SessionMetricsCollector({
+      promptVersion: PROMPT_VERSION,
+      language: settings.language.code,
+      voiceReplies: settings.voiceReplies,
+      deflectionEmail: DEFLECTION_EMAIL,
+    }, Date.now());
+    this.setState({ status: ConnectionStatus.CONNECTING, notice: null });
+    try {
+      // A blocked or missing microphone still leaves the text chat usable.
+      let stream: MediaStream | null = null;
+      try {
+        stream = await this.environment.getUserMedia();
+      } catch (err) {
+        console.warn("Microphone unavailable, continuing with text input only", err);
+      }
+      if (cancelled()) {
+        stream?.getTracks().forEach(t => t.stop());
+        return;
+      }
+      this.stream = stream;
+      this.setState({ micAvailable: !!stream });
+
+      const output = this.environment.createAudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+      this.outputContext = output;
+      await output.resume();
+      if (cancelled()) return;
+      this.outputNode = output.createGain();
+      this.outputNode.connect(output.destination);
+      const outputAnalyser = createAnalyser(output);
+      this.outputNode.connect(outputAnalyser);
+      this.analysers = { input: null, output: outputAnalyser };
+      this.recorder = settings.record ? new ConsultationRecorder(output.currentTime) : null;
+
+      if (stream) {
+        // Run capture at the device's native rate; the worklet resamples to 16 kHz.
+        const input = this.environment.createAudioContext();
+        this.inputContext = input;
+        await input.resume();
+        if (cancelled()) return;
+        const inputAnalyser = createAnalyser(input);
+        input.createMediaStreamSource(stream).connect(inputAnalyser);
+        this.analysers = { input: inputAnalyser, output: outputAnalyser };
+        // Capture outlives individual Live connections; chunks are dropped while reconnecting.
+        const capture = await this.environment.startCapture(input, stream, chunk => {
+          if (this.isLive) this.routeAudioChunk(chunk);
+        });
+        if (cancelled()) {
+          capture.stop();
+          return;
+        }
+        this.capture = capture;
+      }
+
+      await this.connect();
+    } catch (err: any) {
+      if (cancelled()) return;
+      this.metrics?.error(err?.message || 'Start failed');
+      this.fail({ key: 'errorStartFailed', detail: err?.message });
+    }
+  }
+
+  sendText(text: string) {
+    const trimmed = text.trim();
+    if (!trimmed || !this.isLive) return;
+    // Whatever the caller said before typing comes first in the transcript.
+    const { pendingInput } = this.state;
+    if (pendingInput) {
+      this.setState({ pendingInput: '' });
+      this.appendToHistory('user', pendingInput, 'voice');
+    }
+    this.appendToHistory('user', trimmed, 'text', this.takePendingImages());
+    this.metrics?.callerInput(Date.now());
+    this.withSession(session => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: trimmed }] }],
+      turnComplete: true,
+    }));
+  }
+}
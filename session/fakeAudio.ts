@@ -0,0 +1,143 @@
+
+import { AudioCapture } from '../utils/capture.ts';
+import { FrameCapture } from '../utils/camera.ts';
+import { SessionEnvironment } from './controller.ts';
+
+// Just enough of the Web Audio API for the controller to build its graph and schedule playback.
+
+class FakeNode {
+  connect(destination: FakeNode) {
+    return destination;
+  }
+  disconnect() {}
+}
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+export class FakeBufferSource extends FakeNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  startedAt: number | null = null;
+  stopped = false;
+
+  start(when = 0) {
+    this.startedAt = when;
+  }
+
+  stop() {
+    this.stopped = true;
+    this.onended?.();
+  }
+}
+
+class FakeAnalyser extends FakeNode {
+  fftSize = 2048;
+  getFloatTimeDomainData(buffer: Float32Array) {
+    buffer.fill(0);
+  }
+}
+
+export class FakeAudioContext {
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  readonly destination = new FakeNode();
+  readonly createdSources: FakeBufferSource[] = [];
+
+  constructor(readonly sampleRate = 48000) {}
+
+  async resume() {}
+
+  async close() {
+    this.state = 'closed';
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.createdSources.push(source);
+    return source;
+  }
+
+  createGain() {
+    return new FakeNode();
+  }
+
+  createAnalyser() {
+    return new FakeAnalyser();
+  }
+
+  createMediaStreamSource() {
+    return new FakeNode();
+  }
+}
+
+/**
+ * A `SessionEnvironment` backed by fake audio contexts. `micAvailable: false` makes
+ * `getUserMedia` reject; `speak` pushes a captured chunk through the controller and
+ * `showFrame` a camera frame.
+ */
+export class FakeEnvironment implements SessionEnvironment {
+  readonly contexts: FakeAudioContext[] = [];
+  captureStopped = false;
+  cameraAvailable = true;
+  private onChunk: ((chunk: Float32Array) => void) | null = null;
+  private onFrame: ((dataUrl: string) => void) | null = null;
+
+  constructor(private micAvailable = true) {}
+
+  get outputContext(): FakeAudioContext {
+    return this.contexts[0];
+  }
+
+  createAudioContext = (options?: AudioContextOptions): AudioContext => {
+    const ctx = new FakeAudioContext(options?.sampleRate);
+    this.contexts.push(ctx);
+    return ctx as unknown as AudioContext;
+  };
+
+  getUserMedia = async (): Promise<MediaStream> => {
+    if (!this.micAvailable) throw new Error('Permission denied');
+    return { getTracks: () => [] } as unknown as MediaStream;
+  };
+
+  startCapture = async (_ctx: AudioContext, _stream: MediaStream, onChunk: (chunk: Float32Array) => void): Promise<AudioCapture> => {
+    this.onChunk = onChunk;
+    this.captureStopped = false;
+    return { stop: () => { this.captureStopped = true; this.onChunk = null; } };
+  };
+
+  getCamera = async (): Promise<MediaStream> => {
+    if (!this.cameraAvailable) throw new Error('Permission denied');
+    return { getTracks: () => [] } as unknown as MediaStream;
+  };
+
+  startFrameCapture = async (_stream: MediaStream, onFrame: (dataUrl: string) => void): Promise<FrameCapture> => {
+    this.onFrame = onFrame;
+    return { stop: () => { this.onFrame = null; } };
+  };
+
+  speak(chunk: Float32Array) {
+    this.onChunk?.(chunk);
+  }
+
+  showFrame(dataUrl: string) {
+    this.onFrame?.(dataUrl);
+  }
+}
@@ -0,0 +1,99 @@
+
+import {
+  LiveCallbacks,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+} from '@google/genai';
+import { LiveConnectRequest, LiveConnection, LiveSessionHandle, LiveTransport } from './transport.ts';
+
+/** What one call to `connect` does. */
+export interface FakeConnectScript {
+  /** Reject `connect` with this message instead of opening. */
+  failWith?: string;
+  /** Server messages replayed in order once the connection is open. */
+  messages?: LiveServerMessage[];
+  /** What the socket does after the last message. */
+  end?: 'open' | 'error' | 'close';
+  expiresAt?: Date;
+}
+
+/** Records everything the client sends and lets a test push server events. */
+export class FakeLiveSession implements LiveSessionHandle {
+  readonly realtimeInput: LiveSendRealtimeInputParameters[] = [];
+  readonly clientContent: LiveSendClientContentParameters[] = [];
+  readonly toolResponses: LiveSendToolResponseParameters[] = [];
+  closed = false;
+
+  constructor(private callbacks: LiveCallbacks) {}
+
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters) {
+    this.realtimeInput.push(params);
+  }
+
+  sendClientContent(params: LiveSendClientContentParameters) {
+    this.clientContent.push(params);
+  }
+
+  sendToolResponse(params: LiveSendToolResponseParameters) {
+    this.toolResponses.push(params);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  /** Delivers each message once the handler for the previous one has settled. */
+  async deliver(...messages: LiveServerMessage[]) {
+    for (const message of messages) {
+      await this.callbacks.onmessage(message);
+    }
+  }
+
+  error() {
+    this.callbacks.onerror?.(new Event('error') as ErrorEvent);
+  }
+
+  drop() {
+    this.callbacks.onclose?.(new Event('close') as CloseEvent);
+  }
+}
+
+/**
+ * Stands in for the Live API. Each `connect` consumes the next script (an empty one just
+ * opens) and replays its messages; `replayed` settles when every replay has finished.
+ */
+export class FakeLiveTransport implements LiveTransport {
+  readonly requests: LiveConnectRequest[] = [];
+  readonly sessions: FakeLiveSession[] = [];
+  private replays: Promise<void>[] = [];
+
+  constructor(private scripts: FakeConnectScript[] = []) {}
+
+  get lastSession(): FakeLiveSession | undefined {
+    return this.sessions[this.sessions.length - 1];
+  }
+
+  async connect(request: LiveConnectRequest): Promise<LiveConnection> {
+    this.requests.push(request);
+    const script = this.scripts.shift() ?? {};
+    await Promise.resolve();
+    if (script.failWith) throw new Error(script.failWith);
+
+    const session = new FakeLiveSession(request.callbacks);
+    this.sessions.push(session);
+    request.callbacks.onopen?.();
+    // Like the SDK, messages only start flowing after `connect` has resolved.
+    this.replays.push(Promise.resolve().then(async () => {
+      await session.deliver(...(script.messages ?? []));
+      if (script.end === 'error') session.error();
+      if (script.end === 'close') session.drop();
+    }));
+    return { session, expiresAt: script.expiresAt };
+  }
+
+  async replayed() {
+    while (this.replays.length) await this.replays.shift();
+  }
+}
@@ -0,0 +1,63 @@
+
+import { FunctionCall, LiveServerMessage } from '@google/genai';
+import { createBlob } from '../utils/audio.ts';
+
+// Server message sequences shaped like those recorded from the Live API, for replay through FakeLiveTransport.
+// The SDK hands callbacks instances of its class, whose `text`/`data` getters read from these fields.
+const message = (fields: Pick<LiveServerMessage, 'serverContent' | 'toolCall' | 'sessionResumptionUpdate'>): LiveServerMessage =>
+  Object.assign(new LiveServerMessage(), fields);
+
+/** `seconds` of a 440 Hz tone as base64 24 kHz PCM, the format the Live API streams replies in. */
+export const agentAudio = (seconds: number): string => {
+  const samples = new Float32Array(Math.round(24000 * seconds));
+  for (let i = 0; i < samples.length; i++) samples[i] = 0.25 * Math.sin((2 * Math.PI * 440 * i) / 24000);
+  return createBlob(samples, 24000).data;
+};
+
+export const audioChunk = (seconds: number): LiveServerMessage => message({
+  serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: agentAudio(seconds) } }] } },
+});
+
+export const inputTranscript = (text: string): LiveServerMessage => message({ serverContent: { inputTranscription: { text } } });
+
+export const outputTranscript = (text: string): LiveServerMessage => message({ serverContent: { outputTranscription: { text } } });
+
+export const textChunk = (text: string): LiveServerMessage => message({ serverContent: { modelTurn: { parts: [{ text }] } } });
+
+export const turnComplete = (): LiveServerMessage => message({ serverContent: { turnComplete: true } });
+
+export const interrupted = (): LiveServerMessage => message({ serverContent: { interrupted: true } });
+
+export const resumptionUpdate = (newHandle: string): LiveServerMessage => message({ sessionResumptionUpdate: { newHandle, resumable: true } });
+
+export const toolCall = (...functionCalls: FunctionCall[]): LiveServerMessage => message({ toolCall: { functionCalls } });
+
+/** The caller asks a question and the agent answers in two audio chunks with transcription. */
+export const VOICE_TURN: LiveServerMessage[] = [
+  inputTranscript('Do you take '),
+  inputTranscript('polystyrene?'),
+  audioChunk(0.5),
+  outputTranscript('Yes, polystyrene '),
+  audioChunk(0.5),
+  outputTranscript('is accepted.'),
+  turnComplete(),
+];
+
+/** The caller talks over the agent halfway through its reply. */
+export const INTERRUPTED_TURN: LiveServerMessage[] = [
+  inputTranscript('What about PVC?'),
+  audioChunk(1),
+  outputTranscript('PVC is '),
+  audioChunk(1),
+  interrupted(),
+  inputTranscript(' Sorry, I meant PET.'),
+  turnComplete(),
+];
+
+/** A reply on a text-only session: no audio and no output transcription, just text parts. */
+export const TEXT_TURN: LiveServerMessage[] = [
+  textChunk('Our plants take '),
+  message({ serverContent: { modelTurn: { parts: [{ text: 'thinking about the answer', thought: true }] } } }),
+  textChunk('mixed polyolefins.'),
+  turnComplete(),
+];
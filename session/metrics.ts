@@ -0,0 +1,104 @@
+
+import { LiveServerMessage } from '@google/genai';
+import { LanguageCode, SessionEndReason, SessionMetrics } from '../types.ts';
+import { deflectionPattern } from '../utils/analytics.ts';
+
+export interface MetricsContext {
+  promptVersion: string;
+  language: LanguageCode;
+  voiceReplies: boolean;
+  /** Replies naming this address count as deflections. */
+  deflectionEmail: string;
+}
+
+/**
+ * Builds the `SessionMetrics` of one session from its Live messages and the few
+ * client-side events the stream does not show. Times are epoch milliseconds passed
+ * in by the caller, so the collector itself never reads a clock.
+ */
+export class SessionMetricsCollector {
+  private readonly id = crypto.randomUUID();
+  private readonly startedAt: Date;
+  private readonly deflection: RegExp;
+  private connectedAt: number | null = null;
+  private reconnects = 0;
+  private turns = 0;
+  private interruptions = 0;
+  private deflections = 0;
+  private latencies: number[] = [];
+  private errors: string[] = [];
+  // Set when the caller last said or typed something and no reply has started since.
+  private awaitingReplySince: number | null = null;
+  private replying = false;
+  private replyText = '';
+
+  constructor(private context: MetricsContext, startedAt: number) {
+    this.startedAt = new Date(startedAt);
+    this.deflection = deflectionPattern(context.deflectionEmail);
+  }
+
+  connected(at: number) {
+    if (this.connectedAt === null) this.connectedAt = at;
+    else this.reconnects++;
+  }
+
+  /**
+   * The caller finished an utterance or sent a message. Input while the agent is
+   * replying is a barge-in, not a new turn, so it does not restart the clock.
+   */
+  callerInput(at: number) {
+    if (!this.replying) this.awaitingReplySince = at;
+  }
+
+  error(detail: string) {
+    this.errors.push(detail);
+  }
+
+  message(message: LiveServerMessage, at: number) {
+    const content = message.serverContent;
+    // Transcription trails the audio it describes, so the latest fragment is the closest the client gets to the end of speech.
+    if (content?.inputTranscription?.text) this.callerInput(at);
+
+    const parts = content?.modelTurn?.parts ?? [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+    if (parts.some(p => p.inlineData?.data) || text) {
+      if (this.awaitingReplySince !== null) this.latencies.push(Math.max(0, at - this.awaitingReplySince));
+      this.awaitingReplySince = null;
+      this.replying = true;
+    }
+    this.replyText += (content?.outputTranscription?.text ?? '') + text;
+
+    if (content?.interrupted) {
+      this.interruptions++;
+      this.endReply();
+    }
+    if (content?.turnComplete) {
+      this.turns++;
+      this.endReply();
+    }
+  }
+
+  private endReply() {
+    if (this.deflection.test(this.replyText)) this.deflections++;
+    this.replyText = '';
+    this.replying = false;
+  }
+
+  finish(endReason: SessionEndReason, at: number): SessionMetrics {
+    return {
+      id: this.id,
+      startedAt: this.startedAt,
+      durationSeconds: this.connectedAt === null ? 0 : Math.round((at - this.connectedAt) / 100) / 10,
+      promptVersion: this.context.promptVersion,
+      language: this.context.language,
+      voiceReplies: this.context.voiceReplies,
+      turns: this.turns,
+      interruptions: this.interruptions,
+      firstReplyLatenciesMs: [...this.latencies],
+      deflections: this.deflections,
+      reconnects: this.reconnects,
+      errors: [...this.errors],
+      endReason,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+
+import { FunctionCall, FunctionResponse } from '@google/genai';
+import { EnquiryDraft, FeedstockAssessment, ImpactInput, MetricReading, TelemetryStatus } from '../types.ts';
+import { FEEDSTOCK_TOOL_NAME, parseFeedstockArgs, assessFeedstock } from '../utils/feedstock.ts';
+import { TELEMETRY_TOOL_NAME, describeTelemetry } from '../utils/telemetry.ts';
+import { ENQUIRY_TOOL_NAME, parseEnquiryArgs, buildTranscriptExcerpt, createEnquiryDraft } from '../utils/enquiry.ts';
+import { IMPACT_TOOL_NAME, parseImpactArgs, calculateImpact, describeImpact } from '../utils/impact.ts';
+import { SessionSettings, SessionState } from './controller.ts';
+
+/** What a UI hosting the session shows for each tool, and where plant readings come from. */
+export interface ToolHandlers {
+  onFeedstockAssessed: (assessment: FeedstockAssessment) => void;
+  onEnquiryDrafted: (draft: EnquiryDraft) => void;
+  /** The panel recalculates from the same input, so it shows exactly what the agent is quoting. */
+  onImpactQuoted: (input: ImpactInput) => void;
+  getTelemetry: () => { latest: Record<string, MetricReading>; status: TelemetryStatus };
+}
+
+/** Answers one tool call from the agent; unknown tools and bad arguments come back as errors for the model. */
+export function handleToolCall(fc: FunctionCall, session: SessionState, settings: SessionSettings, handlers: ToolHandlers): FunctionResponse {
+  switch (fc.name) {
+    case FEEDSTOCK_TOOL_NAME: {
+      const assessment = assessFeedstock(parseFeedstockArgs(fc.args));
+      handlers.onFeedstockAssessed(assessment);
+      return { id: fc.id, name: fc.name, response: { output: assessment } };
+    }
+    case ENQUIRY_TOOL_NAME: {
+      const enquiry = parseEnquiryArgs(fc.args);
+      handlers.onEnquiryDrafted(createEnquiryDraft(enquiry, buildTranscriptExcerpt(session.history, session.pendingInput, session.pendingOutput, settings.voiceReplies ? 'voice' : 'text')));
+      const missing: string[] = (['contactName', 'company', 'wasteStream', 'location'] as const).filter(k => !enquiry[k]);
+      if (!enquiry.email && !enquiry.phone) missing.push('email or phone');
+      return {
+        id: fc.id,
+        name: fc.name,
+        response: { output: { status: 'SHOWN_FOR_REVIEW', message: 'The enquiry is on screen for the caller to check, complete and send.', missingFields: missing } },
+      };
+    }
+    case IMPACT_TOOL_NAME: {
+      const parsed = parseImpactArgs(fc.args);
+      if ('error' in parsed) return { id: fc.id, name: fc.name, response: { error: parsed.error } };
+      handlers.onImpactQuoted(parsed.input);
+      return { id: fc.id, name: fc.name, response: { output: describeImpact(calculateImpact(parsed.input)) } };
+    }
+    case TELEMETRY_TOOL_NAME: {
+      const { latest, status } = handlers.getTelemetry();
+      return { id: fc.id, name: fc.name, response: { output: describeTelemetry(latest, status) } };
+    }
+    default:
+      return { id: fc.id, name: fc.name, response: { error: `Unknown function: ${fc.name}` } };
+  }
+}
@@ -0,0 +1,48 @@
+
+import {
+  GoogleGenAI,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { fetchLiveToken } from '../utils/backend.ts';
+
+/** The part of the SDK's `Session` the controller relies on. */
+export interface LiveSessionHandle {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface LiveConnection {
+  session: LiveSessionHandle;
+  /** When the credentials behind this connection stop working, if they expire at all. */
+  expiresAt?: Date;
+}
+
+export interface LiveConnectRequest {
+  model: string;
+  config: LiveConnectConfig;
+  callbacks: LiveCallbacks;
+}
+
+/**
+ * Opens Live connections. `connect` resolves once the socket is open and rejects if it
+ * never opens; after that, failures arrive through `onerror`/`onclose`.
+ */
+export interface LiveTransport {
+  connect(request: LiveConnectRequest): Promise<LiveConnection>;
+}
+
+/** Connects to the Gemini Live API with a fresh single-use token from the backend each time. */
+export class GenAiLiveTransport implements LiveTransport {
+  async connect({ model, config, callbacks }: LiveConnectRequest): Promise<LiveConnection> {
+    const liveToken = await fetchLiveToken();
+    const ai = new GoogleGenAI({ apiKey: liveToken.token, httpOptions: { apiVersion: 'v1alpha' } });
+    const session = await ai.live.connect({ model, config, callbacks });
+    return { session, expiresAt: new Date(liveToken.expiresAt) };
+  }
+}
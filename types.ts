@@ -3,18 +3,349 @@ export enum ConnectionStatus {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
+export enum InputMode {
+  ALWAYS_ON = 'ALWAYS_ON',
+  PUSH_TO_TALK = 'PUSH_TO_TALK',
+  VOICE_GATE = 'VOICE_GATE'
+}
+
+export enum SpeakingState {
+  LISTENING = 'LISTENING',
+  USER_SPEAKING = 'USER_SPEAKING',
+  AGENT_SPEAKING = 'AGENT_SPEAKING',
+  INTERRUPTED = 'INTERRUPTED',
+}
+
+export interface SpeakingDetectionOptions {
+  userThresholdDb: number;
+  agentThresholdDb: number;
+  /** How long a speaker still counts as speaking after their level drops. */
+  hangoverMs: number;
+  /** How long the interrupted state is shown before levels take over again. */
+  interruptedHoldMs: number;
+}
+
+/** Taps on the microphone stream (absent without a mic) and on the agent's output node. */
+export interface AudioAnalysers {
+  input: AnalyserNode | null;
+  output: AnalyserNode;
+}
+
+export interface VoiceGateOptions {
+  /** How far above the tracked noise floor a chunk must be to count as speech. */
+  marginDb: number;
+  /** Chunks quieter than this are never speech, however quiet the room. */
+  minLevelDb: number;
+  hangoverChunks: number;
+  preRollChunks: number;
+  /**
+   * While the gate is open the floor is raised to the quietest of this many recent chunks.
+   * Speech dips between words within that window; steady hall noise does not.
+   */
+  noiseWindowChunks: number;
+}
+
+export type MessageModality = 'voice' | 'text';
+
+export type ImageSource = 'camera' | 'upload';
+
+/** A picture the agent was shown, kept with the transcript entry of the turn it was discussed in. */
+export interface MessageImage {
+  /** Downscaled JPEG, as sent to the model. */
+  dataUrl: string;
+  source: ImageSource;
+  capturedAt: Date;
+}
+
 export interface Message {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  modality: MessageModality;
+  images?: MessageImage[];
+}
+
+export interface FrameCaptureOptions {
+  intervalMs: number;
+  /** Longest side, in pixels, of every image sent; larger frames and uploads are scaled down. */
+  maxDimension: number;
+  /** JPEG quality, 0 to 1. */
+  quality: number;
+}
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+export type LanguageCode = 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES' | 'it-IT' | 'nl-NL';
+
+export interface LanguageOption {
+  code: LanguageCode;
+  /** Native name, shown in the picker. */
+  label: string;
+  /** English name, used in the system instruction. */
+  name: string;
+}
+
+export interface ConsultationMetadata {
+  model: string;
+  voice: string;
+  /** Absent on consultations saved before the language could be chosen; those were English. */
+  language?: LanguageCode;
+  knowledgeVersion: string;
+  /** Yield and emission assumptions behind any impact figures quoted; absent on older consultations. */
+  impactVersion?: string;
+  /** The consent the caller gave before the session; absent on consultations saved before consent was asked for. */
+  consent?: PrivacyConsent;
+  userAgent: string;
+}
+
+/** Agreement to the privacy notice shown before the first session; asked again when the notice changes. */
+export interface PrivacyConsent {
+  acceptedAt: Date;
+  noticeVersion: string;
+}
+
+/** Describes the stereo WAV stored alongside a consultation under the same id. */
+export interface RecordingInfo {
+  sampleRate: number;
+  durationSeconds: number;
+  sizeBytes: number;
+}
+
+export interface ConsultationRecord {
+  id: string;
+  startedAt: Date;
+  endedAt: Date;
+  messages: Message[];
+  metadata: ConsultationMetadata;
+  recording?: RecordingInfo;
+}
+
+export interface Enquiry {
+  contactName: string;
+  company: string;
+  email: string;
+  phone: string;
+  wasteStream: string;
+  monthlyTonnage: number | null;
+  location: string;
+  question: string;
+}
+
+export interface EnquiryDraft {
+  id: string;
+  createdAt: Date;
+  enquiry: Enquiry;
+  transcriptExcerpt: Message[];
+}
+
+export enum TelemetryStatus {
+  CONNECTING = 'CONNECTING',
+  LIVE = 'LIVE',
+  /** Readings come from the development plant simulator, not the plant. */
+  SIMULATED = 'SIMULATED',
+  OFFLINE = 'OFFLINE'
+}
+
+export type AlarmLevel = 'LOW' | 'HIGH';
+
+export interface MetricDefinition {
+  id: string;
+  label: string;
+  unit: string;
+  nominal: number;
+  low?: number;
+  high?: number;
+}
+
+export interface MetricReading {
+  metricId: string;
+  value: number;
+  timestamp: Date;
+}
+
+export interface TelemetrySource {
+  /** Starts delivering readings; returns a function that stops the source. */
+  start(onReadings: (readings: MetricReading[]) => void, onStatus: (status: TelemetryStatus) => void): () => void;
+}
+
+export interface FeedstockEntry {
+  name: string;
+  polymers: PolymerCode[];
+  /** Qualifier spoken alongside the name, e.g. "in large quantities". */
+  condition?: string;
+}
+
+export type ContactRole = 'technical' | 'sales' | 'general';
+
+export interface ContactEntry {
+  role: ContactRole;
+  label: string;
+  email: string;
+}
+
+export interface FaqEntry {
+  question: string;
+  answer: string;
 }
 
 export interface IteroInfo {
+  version: string;
+  updated: string;
   name: string;
+  shortName: string;
+  summary: string;
   mission: string;
-  wlpp: string;
-  wasteTypes: string[];
+  wlpp: { name: string; code: string; description: string };
+  wasteTypes: { accepted: FeedstockEntry[]; rejected: FeedstockEntry[] };
+  contacts: ContactEntry[];
+  faqs: FaqEntry[];
+  tone: string;
+}
+
+export enum FeedstockVerdict {
+  ACCEPT = 'ACCEPT',
+  CONDITIONAL = 'CONDITIONAL',
+  REJECT = 'REJECT'
+}
+
+export type PolymerCode = 'PE' | 'PP' | 'PS' | 'PET' | 'PVC' | 'OTHER';
+
+export interface FeedstockComposition {
+  polymers: Partial<Record<PolymerCode, number>>;
+  moisturePercent?: number;
+  organicPercent?: number;
+  contaminants?: string[];
+}
+
+export interface FeedstockAssessment {
+  verdict: FeedstockVerdict;
+  reasons: string[];
+  composition: FeedstockComposition;
+}
+
+export type BaselineRoute = 'landfill' | 'incineration';
+export type DisposalRoute = BaselineRoute | 'pyrolysis';
+
+/** A number used in a quoted figure, with where it comes from. */
+export interface SourcedFactor {
+  value: number;
+  source: string;
 }
+
+/** Product split for one accepted feedstock, as mass fractions of the input; the remainder is process loss. */
+export interface YieldFactors {
+  feedstock: string;
+  oil: number;
+  gas: number;
+  char: number;
+  source: string;
+}
+
+export interface ImpactAssumptions {
+  version: string;
+  updated: string;
+  yields: YieldFactors[];
+  /** Tonnes CO2e emitted per tonne of plastic waste sent down each route. */
+  emissions: Record<DisposalRoute, SourcedFactor>;
+  /** Tonnes CO2e avoided per tonne of Itero-Oil used in place of fossil naphtha. */
+  oilDisplacement: SourcedFactor;
+}
+
+export interface ImpactInput {
+  feedstock: string;
+  tonnes: number;
+}
+
+/** All quantities in tonnes (of product or of CO2e), rounded to two decimals. */
+export interface ImpactResult {
+  input: ImpactInput;
+  products: { oil: number; gas: number; char: number; losses: number };
+  pyrolysisEmissions: number;
+  displacementCredit: number;
+  /** Net CO2e saved by pyrolysis instead of each route; negative when pyrolysis emits more. */
+  savings: Record<BaselineRoute, { baselineEmissions: number; netSaving: number }>;
+  assumptionsVersion: string;
+}
+
+/** Why a session ended: the caller (or the page) stopped it, the credentials ran out, or it failed. */
+export type SessionEndReason = 'stopped' | 'expired' | 'start_failed' | 'connect_failed' | 'connection_lost';
+
+/** Quality figures for one session, collected from the Live message stream. */
+export interface SessionMetrics {
+  id: string;
+  startedAt: Date;
+  /** From the first open connection to the end; 0 when no connection ever opened. */
+  durationSeconds: number;
+  /** Identifies the system instruction the session ran with, so prompt changes can be compared. */
+  promptVersion: string;
+  language: LanguageCode;
+  voiceReplies: boolean;
+  /** Completed model turns. */
+  turns: number;
+  interruptions: number;
+  /** Per reply, milliseconds from the caller's last input to the agent's first audio (or text). */
+  firstReplyLatenciesMs: number[];
+  /** Replies that pointed the caller to the technical contact address. */
+  deflections: number;
+  reconnects: number;
+  /** Error and close details reported by the connection, in order. */
+  errors: string[];
+  endReason: SessionEndReason;
+}
+
+/** Aggregates over a set of sessions; averages and percentiles are undefined when there is nothing to average. */
+export interface MetricsSummary {
+  sessions: number;
+  totalTurns: number;
+  averageDurationSeconds?: number;
+  averageTurns?: number;
+  medianLatencyMs?: number;
+  p90LatencyMs?: number;
+  /** Interruptions per completed turn. */
+  interruptionRate?: number;
+  /** Deflections per completed turn. */
+  deflectionRate?: number;
+  /** Share of sessions that ended in a failure rather than being stopped or expiring. */
+  failureRate?: number;
+  endReasons: Partial<Record<SessionEndReason, number>>;
+}
+
+export type WidgetTheme = 'dark' | 'light';
+
+/** How an embedding page configured the widget, after validation. */
+export interface WidgetConfig {
+  voice: string;
+  theme: WidgetTheme;
+  language: LanguageCode;
+  /** Describes the host page to the agent, e.g. "page: WLPP". */
+  context?: string;
+  /** Origin of the embedding page; events are only posted there. Null when it is unknown. */
+  hostOrigin: string | null;
+}
+
+/** A transcript entry as reported to the host page: masked text, no pictures. */
+export interface WidgetTranscriptEntry {
+  role: Message['role'];
+  text: string;
+  timestamp: Date;
+  modality: MessageModality;
+}
+
+/**
+ * Events the embedded widget posts to its host page. Contact details stay out of
+ * enquiry events: they go to the Itero team only.
+ */
+export type WidgetEvent =
+  | { type: 'ready'; config: Pick<WidgetConfig, 'voice' | 'theme' | 'language'> }
+  | { type: 'session-start'; startedAt: Date }
+  | { type: 'session-end'; endedAt: Date; reason: SessionEndReason; durationSeconds: number; turns: number }
+  | { type: 'transcript'; entry: WidgetTranscriptEntry }
+  | { type: 'enquiry'; id: string; createdAt: Date; company: string; wasteStream: string; monthlyTonnage: number | null; location: string };
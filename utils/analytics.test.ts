@@ -0,0 +1,118 @@
+
+import { describe, expect, it } from 'vitest';
+import { SessionMetrics } from '../types.ts';
+import { dailyVolume, deflectionPattern, exportMetrics, latencyHistogram, percentile, summarizeByPromptVersion, summarizeMetrics } from './analytics.ts';
+
+const session = (overrides: Partial<SessionMetrics>): SessionMetrics => ({
+  id: 'id',
+  startedAt: new Date(2026, 2, 2, 10),
+  durationSeconds: 60,
+  promptVersion: '1.0.0-aaaaaaaa',
+  language: 'en-GB',
+  voiceReplies: true,
+  turns: 4,
+  interruptions: 0,
+  firstReplyLatenciesMs: [],
+  deflections: 0,
+  reconnects: 0,
+  errors: [],
+  endReason: 'stopped',
+  ...overrides,
+});
+
+describe('deflectionPattern', () => {
+  const pattern = deflectionPattern('info@itero-tech.com');
+
+  it('matches the address as written and as transcribed speech', () => {
+    expect(pattern.test('Write to info@itero-tech.com.')).toBe(true);
+    expect(pattern.test('email Info at Itero Tech dot com')).toBe(true);
+    expect(pattern.test('info at itero-tech.com')).toBe(true);
+  });
+
+  it('ignores other addresses', () => {
+    expect(pattern.test('sales@itero-tech.com')).toBe(false);
+    expect(pattern.test('info@iterotech.co.uk')).toBe(false);
+  });
+});
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    expect(percentile([400, 100, 300, 200], 50)).toBe(200);
+    expect(percentile([400, 100, 300, 200], 90)).toBe(400);
+    expect(percentile([], 50)).toBeUndefined();
+  });
+});
+
+describe('summarizeMetrics', () => {
+  it('averages over connected sessions and rates over completed turns', () => {
+    const summary = summarizeMetrics([
+      session({ durationSeconds: 120, turns: 6, interruptions: 2, deflections: 1, firstReplyLatenciesMs: [700, 900] }),
+      session({ durationSeconds: 60, turns: 2, firstReplyLatenciesMs: [1500] }),
+      session({ durationSeconds: 0, turns: 0, endReason: 'connect_failed' }),
+    ]);
+
+    expect(summary).toEqual({
+      sessions: 3,
+      totalTurns: 8,
+      averageDurationSeconds: 90,
+      averageTurns: 4,
+      medianLatencyMs: 900,
+      p90LatencyMs: 1500,
+      interruptionRate: 0.25,
+      deflectionRate: 0.125,
+      failureRate: 1 / 3,
+      endReasons: { stopped: 2, connect_failed: 1 },
+    });
+  });
+
+  it('leaves averages undefined when there is nothing to average', () => {
+    expect(summarizeMetrics([])).toMatchObject({ sessions: 0, averageDurationSeconds: undefined, interruptionRate: undefined });
+  });
+});
+
+describe('summarizeByPromptVersion', () => {
+  it('groups sessions by prompt version, oldest version first', () => {
+    const groups = summarizeByPromptVersion([
+      session({ promptVersion: 'b', startedAt: new Date(2026, 2, 5) }),
+      session({ promptVersion: 'a', startedAt: new Date(2026, 2, 1) }),
+      session({ promptVersion: 'b', startedAt: new Date(2026, 2, 3) }),
+    ]);
+
+    expect(groups.map(g => [g.promptVersion, g.summary.sessions])).toEqual([['a', 1], ['b', 2]]);
+    expect(groups[1].firstSeen).toEqual(new Date(2026, 2, 3));
+  });
+});
+
+describe('charts', () => {
+  it('buckets latencies with an open-ended last bucket', () => {
+    const buckets = latencyHistogram([0, 450, 500, 9000], 500, 1000);
+    expect(buckets).toEqual([
+      { fromMs: 0, toMs: 500, count: 2 },
+      { fromMs: 500, toMs: 1000, count: 1 },
+      { fromMs: 1000, count: 1 },
+    ]);
+  });
+
+  it('counts sessions and failures per local day', () => {
+    const volume = dailyVolume([
+      session({ startedAt: new Date(2026, 2, 2, 23, 30) }),
+      session({ startedAt: new Date(2026, 2, 2, 8), endReason: 'connection_lost' }),
+      session({ startedAt: new Date(2026, 1, 1) }),
+    ], 2, new Date(2026, 2, 2, 12));
+
+    expect(volume).toEqual([
+      { day: '2026-03-01', sessions: 0, failures: 0 },
+      { day: '2026-03-02', sessions: 2, failures: 1 },
+    ]);
+  });
+});
+
+describe('exportMetrics', () => {
+  it('includes the overall and per-version summaries with the raw sessions', () => {
+    const exported = JSON.parse(exportMetrics([session({})], new Date('2026-03-03T00:00:00Z')));
+    expect(exported.exportedAt).toBe('2026-03-03T00:00:00.000Z');
+    expect(exported.overall.sessions).toBe(1);
+    expect(exported.byPromptVersion[0].promptVersion).toBe('1.0.0-aaaaaaaa');
+    expect(exported.sessions).toHaveLength(1);
+  });
+});
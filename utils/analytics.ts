@@ -0,0 +1,117 @@
+
+import { MetricsSummary, SessionEndReason, SessionMetrics } from '../types.ts';
+
+const FAILURES: SessionEndReason[] = ['start_failed', 'connect_failed', 'connection_lost'];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches an email address written out or as speech transcription renders it,
+ * e.g. "info@itero-tech.com" as well as "info at itero tech dot com".
+ */
+export function deflectionPattern(email: string): RegExp {
+  const [local, domain] = email.toLowerCase().split('@');
+  const label = (part: string) => part.split('-').map(escapeRegExp).join('[-\\s]?');
+  const host = domain.split('.').map(label).join('\\s*(?:\\.|\\bdot\\b)\\s*');
+  return new RegExp(`${label(local)}\\s*(?:@|\\bat\\b)\\s*${host}`, 'i');
+}
+
+/** Nearest-rank percentile; undefined for an empty list. */
+export function percentile(values: number[], p: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+const average = (values: number[]) => values.length ? sum(values) / values.length : undefined;
+
+export function summarizeMetrics(sessions: SessionMetrics[]): MetricsSummary {
+  // Sessions that never connected have no duration or turns to average.
+  const connected = sessions.filter(s => s.durationSeconds > 0);
+  const totalTurns = sum(sessions.map(s => s.turns));
+  const latencies = sessions.flatMap(s => s.firstReplyLatenciesMs);
+  const endReasons: MetricsSummary['endReasons'] = {};
+  sessions.forEach(s => { endReasons[s.endReason] = (endReasons[s.endReason] ?? 0) + 1; });
+
+  return {
+    sessions: sessions.length,
+    totalTurns,
+    averageDurationSeconds: average(connected.map(s => s.durationSeconds)),
+    averageTurns: average(connected.map(s => s.turns)),
+    medianLatencyMs: percentile(latencies, 50),
+    p90LatencyMs: percentile(latencies, 90),
+    interruptionRate: totalTurns ? sum(sessions.map(s => s.interruptions)) / totalTurns : undefined,
+    deflectionRate: totalTurns ? sum(sessions.map(s => s.deflections)) / totalTurns : undefined,
+    failureRate: sessions.length ? sessions.filter(s => FAILURES.includes(s.endReason)).length / sessions.length : undefined,
+    endReasons,
+  };
+}
+
+export interface PromptVersionSummary {
+  promptVersion: string;
+  firstSeen: Date;
+  summary: MetricsSummary;
+}
+
+/** One summary per prompt version, oldest version first. */
+export function summarizeByPromptVersion(sessions: SessionMetrics[]): PromptVersionSummary[] {
+  const groups = new Map<string, SessionMetrics[]>();
+  sessions.forEach(s => groups.set(s.promptVersion, [...(groups.get(s.promptVersion) ?? []), s]));
+  return [...groups].map(([promptVersion, group]) => ({
+    promptVersion,
+    firstSeen: new Date(Math.min(...group.map(s => s.startedAt.getTime()))),
+    summary: summarizeMetrics(group),
+  })).sort((a, b) => a.firstSeen.getTime() - b.firstSeen.getTime());
+}
+
+export interface HistogramBucket {
+  fromMs: number;
+  /** Undefined for the open-ended last bucket. */
+  toMs?: number;
+  count: number;
+}
+
+export function latencyHistogram(latencies: number[], bucketMs = 500, maxMs = 4000): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [];
+  for (let from = 0; from < maxMs; from += bucketMs) buckets.push({ fromMs: from, toMs: from + bucketMs, count: 0 });
+  buckets.push({ fromMs: maxMs, count: 0 });
+  latencies.forEach(ms => { buckets[Math.min(buckets.length - 1, Math.floor(Math.max(0, ms) / bucketMs))].count++; });
+  return buckets;
+}
+
+export interface DailyVolume {
+  /** Local date, YYYY-MM-DD. */
+  day: string;
+  sessions: number;
+  failures: number;
+}
+
+const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Sessions per day for the `days` days up to and including `today`, oldest first. */
+export function dailyVolume(sessions: SessionMetrics[], days: number, today = new Date()): DailyVolume[] {
+  const volume = Array.from({ length: days }, (_, i) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i));
+    return { day: localDay(date), sessions: 0, failures: 0 };
+  });
+  const byDay = new Map(volume.map(v => [v.day, v]));
+  sessions.forEach(s => {
+    const entry = byDay.get(localDay(s.startedAt));
+    if (!entry) return;
+    entry.sessions++;
+    if (FAILURES.includes(s.endReason)) entry.failures++;
+  });
+  return volume;
+}
+
+/** Everything needed to compare prompt versions offline: per-version aggregates plus the raw sessions. */
+export function exportMetrics(sessions: SessionMetrics[], exportedAt = new Date()): string {
+  return JSON.stringify({
+    exportedAt,
+    overall: summarizeMetrics(sessions),
+    byPromptVersion: summarizeByPromptVersion(sessions),
+    sessions,
+  }, null, 2);
+}
@@ -0,0 +1,59 @@
+
+import { describe, expect, it } from 'vitest';
+import { createBlob, decode, decodeAudioData, encode } from './audio.ts';
+import { FakeAudioContext } from '../session/fakeAudio.ts';
+
+const ctx = () => new FakeAudioContext() as unknown as AudioContext;
+
+describe('encode/decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('handles empty input', () => {
+    expect(encode(new Uint8Array(0))).toBe('');
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the PCM with its sample rate', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('writes little-endian 16-bit samples', () => {
+    const bytes = decode(createBlob(Float32Array.of(0, 0.5, -0.5)).data);
+    const view = new DataView(bytes.buffer);
+    expect(bytes.length).toBe(6);
+    expect([view.getInt16(0, true), view.getInt16(2, true), view.getInt16(4, true)]).toEqual([0, 16383, -16384]);
+  });
+
+  it('clamps out-of-range samples instead of wrapping', () => {
+    const bytes = decode(createBlob(Float32Array.of(1, 1.5, -1, -2)).data);
+    expect(Array.from(new Int16Array(bytes.buffer))).toEqual([32767, 32767, -32768, -32768]);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('round-trips audio encoded by createBlob to within a couple of quantisation steps', async () => {
+    const samples = Float32Array.from({ length: 480 }, (_, i) => 0.8 * Math.sin(i / 10));
+    const buffer = await decodeAudioData(decode(createBlob(samples, 24000).data), ctx(), 24000, 1);
+
+    expect(buffer.sampleRate).toBe(24000);
+    expect(buffer.length).toBe(samples.length);
+    const decoded = buffer.getChannelData(0);
+    // Encoding truncates towards zero and scales positive samples by 32767 but decoding divides by 32768.
+    samples.forEach((sample, i) => expect(Math.abs(decoded[i] - sample)).toBeLessThan(2 / 32768));
+  });
+
+  it('de-interleaves multi-channel audio', async () => {
+    const interleaved = Int16Array.of(16384, -16384, 8192, -8192);
+    const buffer = await decodeAudioData(new Uint8Array(interleaved.buffer), ctx(), 24000, 2);
+
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+});
@@ -0,0 +1,34 @@
+
+// The Gemini key lives on the backend (see server/index.ts); the browser only ever
+// holds short-lived, single-use Live tokens.
+export const BACKEND_URL = process.env.BACKEND_URL || '';
+
+export interface LiveToken {
+  token: string;
+  expiresAt: string;
+  model: string;
+}
+
+export async function fetchLiveToken(): Promise<LiveToken> {
+  let response: Response;
+  try {
+    response = await fetch(`${BACKEND_URL}/api/live-token`, { method: 'POST' });
+  } catch {
+    throw new Error("Assistant backend is unreachable.");
+  }
+  const body = await response.json().catch(() => ({}));
+  if (response.status === 429) {
+    throw new Error(`Too many sessions from this network. Try again in ${Math.ceil((body.retryAfter || 60) / 60)} min.`);
+  }
+  if (!response.ok || !body.token) throw new Error(body.error || "Could not obtain a session token.");
+  return body as LiveToken;
+}
+
+export async function checkBackendHealth(): Promise<boolean> {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/health`, { cache: 'no-store' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
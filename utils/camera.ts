@@ -0,0 +1,63 @@
+
+import { FrameCaptureOptions } from '../types.ts';
+import { CAMERA_CAPTURE } from '../constants.ts';
+
+export interface FrameCapture {
+  stop: () => void;
+}
+
+// Scales the picture down to `maxDimension` on its longest side, never up, and encodes it as JPEG.
+function toJpeg(source: CanvasImageSource, width: number, height: number, options: FrameCaptureOptions): string {
+  const scale = Math.min(1, options.maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', options.quality);
+}
+
+/** Splits a base64 data URL into the `{ data, mimeType }` blob the Live API takes. */
+export function dataUrlToBlob(dataUrl: string): { data: string; mimeType: string } {
+  const [header, data] = dataUrl.split(',', 2);
+  return { data, mimeType: header.slice('data:'.length).replace(';base64', '') };
+}
+
+export const getCameraStream = () =>
+  navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 }, height: { ideal: 720 } } });
+
+/** Grabs a JPEG frame from the camera every `intervalMs`; frames are skipped until the video has data. */
+export async function startFrameCapture(
+  stream: MediaStream,
+  onFrame: (dataUrl: string) => void,
+  options: FrameCaptureOptions = CAMERA_CAPTURE,
+): Promise<FrameCapture> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  await video.play();
+
+  const timer = setInterval(() => {
+    if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+    onFrame(toJpeg(video, video.videoWidth, video.videoHeight, options));
+  }, options.intervalMs);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      video.pause();
+      video.srcObject = null;
+    },
+  };
+}
+
+/** Decodes an uploaded image (photo, screenshot of a spec sheet) into a JPEG no larger than camera frames. */
+export async function loadImageFile(file: File, options: FrameCaptureOptions = CAMERA_CAPTURE): Promise<string> {
+  if (!file.type.startsWith('image/')) throw new Error(`"${file.name}" is not an image.`);
+  const bitmap = await createImageBitmap(file);
+  try {
+    return toJpeg(bitmap, bitmap.width, bitmap.height, options);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,110 @@
+
+import { CAPTURE_CHUNK_SIZE, CAPTURE_SAMPLE_RATE } from '../constants.ts';
+
+const PROCESSOR_NAME = 'itero-pcm-capture';
+
+// Runs on the audio rendering thread. Kept as a string and loaded from a Blob URL so
+// it works the same under the Vite build and the import-map dev setup.
+// Downsampling averages every input sample that falls into an output slot, which
+// doubles as a cheap low-pass filter; the rare sub-16 kHz device is upsampled linearly.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Float32Array(chunkSize);
+    this.length = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.position = 0;
+    this.last = 0;
+  }
+
+  push(sample) {
+    this.chunk[this.length++] = sample;
+    if (this.length === this.chunkSize) {
+      this.port.postMessage(this.chunk, [this.chunk.buffer]);
+      this.chunk = new Float32Array(this.chunkSize);
+      this.length = 0;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      const x = channel[i];
+      if (this.ratio >= 1) {
+        this.sum += x;
+        this.count++;
+        this.position += 1;
+        if (this.position >= this.ratio) {
+          this.position -= this.ratio;
+          this.push(this.sum / this.count);
+          this.sum = 0;
+          this.count = 0;
+        }
+      } else {
+        while (this.position < 1) {
+          this.push(this.last + (x - this.last) * this.position);
+          this.position += this.ratio;
+        }
+        this.position -= 1;
+        this.last = x;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+/**
+ * Streams microphone audio as fixed-size Float32 chunks at CAPTURE_SAMPLE_RATE,
+ * whatever rate the AudioContext actually runs at.
+ */
+export async function startAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: Float32Array) => void,
+): Promise<AudioCapture> {
+  if (!ctx.audioWorklet) throw new Error("AudioWorklet is not supported in this browser.");
+  if (!loadedContexts.has(ctx)) {
+    const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(ctx);
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, chunkSize: CAPTURE_CHUNK_SIZE },
+  });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onChunk(e.data);
+  source.connect(node);
+  // The node outputs silence; connecting it keeps Safari pulling the graph.
+  node.connect(ctx.destination);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
@@ -0,0 +1,120 @@
+
+import { FunctionDeclaration, Type } from '@google/genai';
+import { Enquiry, EnquiryDraft, Message, MessageModality } from '../types.ts';
+import { ENQUIRY_EMAIL, ENQUIRY_EXCERPT_LENGTH } from '../constants.ts';
+import { downloadFile } from './exporters.ts';
+import { BACKEND_URL } from './backend.ts';
+import { redactMessages } from './privacy.ts';
+
+export const ENQUIRY_TOOL_NAME = 'create_enquiry';
+
+export const enquiryToolDeclaration: FunctionDeclaration = {
+  name: ENQUIRY_TOOL_NAME,
+  description: 'Drafts a follow-up enquiry for the Itero team from details the caller gave during the conversation. The caller reviews and sends it on screen.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      contactName: { type: Type.STRING, description: "Caller's full name." },
+      company: { type: Type.STRING, description: "Caller's company or organisation." },
+      email: { type: Type.STRING, description: 'Email address, if given.' },
+      phone: { type: Type.STRING, description: 'Phone number, if given.' },
+      wasteStream: { type: Type.STRING, description: 'Description of the waste stream, e.g. "post-consumer mixed PE/PP film".' },
+      monthlyTonnage: { type: Type.NUMBER, description: 'Approximate tonnes per month.' },
+      location: { type: Type.STRING, description: 'Where the waste arises (town, region or country).' },
+      question: { type: Type.STRING, description: 'What the caller wants to know or needs from the team.' },
+    },
+    required: ['question'],
+  },
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export function parseEnquiryArgs(args: Record<string, unknown> = {}): Enquiry {
+  const tonnage = typeof args.monthlyTonnage === 'string' ? parseFloat(args.monthlyTonnage) : args.monthlyTonnage;
+  return {
+    contactName: text(args.contactName),
+    company: text(args.company),
+    email: text(args.email),
+    phone: text(args.phone),
+    wasteStream: text(args.wasteStream),
+    monthlyTonnage: typeof tonnage === 'number' && Number.isFinite(tonnage) && tonnage >= 0 ? tonnage : null,
+    location: text(args.location),
+    question: text(args.question),
+  };
+}
+
+/** Snapshot of the conversation so far, including any turn still in progress, with personal details masked. */
+export function buildTranscriptExcerpt(
+  history: Message[],
+  pendingInput: string,
+  pendingOutput: string,
+  outputModality: MessageModality = 'voice',
+): Message[] {
+  const now = new Date();
+  const pending: Message[] = [
+    ...(pendingInput.trim() ? [{ role: 'user' as const, text: pendingInput, timestamp: now, modality: 'voice' as const }] : []),
+    ...(pendingOutput.trim() ? [{ role: 'model' as const, text: pendingOutput, timestamp: now, modality: outputModality }] : []),
+  ];
+  // The caller's contact details travel in the confirmed enquiry fields, not in the excerpt.
+  return redactMessages([...history, ...pending].slice(-ENQUIRY_EXCERPT_LENGTH));
+}
+
+export function createEnquiryDraft(enquiry: Enquiry, transcriptExcerpt: Message[]): EnquiryDraft {
+  return { id: crypto.randomUUID(), createdAt: new Date(), enquiry, transcriptExcerpt };
+}
+
+const FIELD_LABELS: [keyof Enquiry, string][] = [
+  ['contactName', 'Name'],
+  ['company', 'Company'],
+  ['email', 'Email'],
+  ['phone', 'Phone'],
+  ['wasteStream', 'Waste stream'],
+  ['monthlyTonnage', 'Monthly tonnage (t)'],
+  ['location', 'Location'],
+  ['question', 'Question'],
+];
+
+function toPlainText(draft: EnquiryDraft): string {
+  const fields = FIELD_LABELS.map(([key, label]) => {
+    const value = draft.enquiry[key];
+    return `${label}: ${value === null || value === '' ? '-' : value}`;
+  });
+  const excerpt = draft.transcriptExcerpt.map(m => `[${m.role === 'user' ? 'Caller' : 'Assistant'}] ${m.text.trim()}`);
+  return [...fields, '', 'Conversation excerpt:', ...excerpt].join('\r\n');
+}
+
+export function toEml(draft: EnquiryDraft): string {
+  const { enquiry } = draft;
+  const subject = `Enquiry: ${enquiry.company || enquiry.contactName || 'website caller'} - ${enquiry.wasteStream || 'general question'}`;
+  const headers = [
+    `To: ${ENQUIRY_EMAIL}`,
+    ...(enquiry.email ? [`Reply-To: ${enquiry.contactName ? `"${enquiry.contactName.replace(/"/g, '')}" ` : ''}<${enquiry.email}>`] : []),
+    `Subject: ${subject.replace(/[\r\n]+/g, ' ')}`,
+    `Date: ${draft.createdAt.toUTCString()}`,
+    'X-Unsent: 1',
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${toPlainText(draft)}\r\n`;
+}
+
+export function exportEnquiry(draft: EnquiryDraft, format: 'json' | 'eml') {
+  const stamp = draft.createdAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  if (format === 'json') downloadFile(JSON.stringify(draft, null, 2), `itero-enquiry-${stamp}.json`, 'application/json');
+  else downloadFile(toEml(draft), `itero-enquiry-${stamp}.eml`, 'message/rfc822');
+}
+
+// Enquiries go through the backend, which forwards them to ENQUIRY_WEBHOOK_URL
+// (or just logs them when no webhook is configured).
+export async function submitEnquiry(draft: EnquiryDraft): Promise<void> {
+  const response = await fetch(`${BACKEND_URL}/api/enquiries`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(draft),
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || `Enquiry could not be sent (${response.status}).`);
+  }
+}
@@ -0,0 +1,108 @@
+
+import { ConsultationRecord, Message } from '../types.ts';
+import { DEFAULT_LANGUAGE } from '../constants.ts';
+import { redactRecord } from './privacy.ts';
+
+export type ExportFormat = 'md' | 'json' | 'srt' | 'vtt';
+
+const SPEAKER: Record<Message['role'], string> = { user: 'Caller', model: 'Itero Assistant' };
+
+// Messages are timestamped when their turn completes, so cue lengths are estimated
+// from the text (about 2.5 words per second of speech) and capped by the next cue.
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 10000;
+const MS_PER_WORD = 400;
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function buildCues(record: ConsultationRecord): Cue[] {
+  const origin = record.startedAt.getTime();
+  return record.messages.map((msg, i) => {
+    const start = Math.max(0, msg.timestamp.getTime() - origin);
+    const words = msg.text.trim().split(/\s+/).length;
+    let end = start + Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, words * MS_PER_WORD));
+    const next = record.messages.slice(i + 1).find(m => m.timestamp.getTime() - origin > start);
+    if (next) end = Math.min(end, next.timestamp.getTime() - origin);
+    return { start, end, text: `${SPEAKER[msg.role]}: ${msg.text.trim()}` };
+  });
+}
+
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toMarkdown(record: ConsultationRecord): string {
+  const lines = [
+    `# Itero Consultation ${record.startedAt.toLocaleString()}`,
+    '',
+    `- **Started:** ${record.startedAt.toISOString()}`,
+    `- **Ended:** ${record.endedAt.toISOString()}`,
+    `- **Model:** ${record.metadata.model} (${record.metadata.voice})`,
+    `- **Language:** ${record.metadata.language ?? DEFAULT_LANGUAGE}`,
+    ...(record.recording ? [`- **Recording:** ${fileStem(record)}.wav (${Math.round(record.recording.durationSeconds)}s)`] : []),
+    '',
+    '## Transcript',
+    '',
+  ];
+  record.messages.forEach(msg => {
+    const typed = msg.modality === 'text' ? ' (typed)' : '';
+    lines.push(`**${SPEAKER[msg.role]}**${typed} _${msg.timestamp.toLocaleTimeString()}_`, '', msg.text.trim(), '');
+    // The pictures themselves are in the JSON export; inlining them here would bury the transcript.
+    msg.images?.forEach(image => lines.push(`_[${image.source === 'camera' ? 'Camera frame' : 'Image'} shown at ${image.capturedAt.toLocaleTimeString()}]_`, ''));
+  });
+  return lines.join('\n');
+}
+
+export function toJson(record: ConsultationRecord): string {
+  return JSON.stringify(record, null, 2);
+}
+
+export function toSrt(record: ConsultationRecord): string {
+  return buildCues(record)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function toWebVtt(record: ConsultationRecord): string {
+  const cues = buildCues(record)
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+const FORMATS: Record<ExportFormat, { render: (record: ConsultationRecord) => string; mimeType: string }> = {
+  md: { render: toMarkdown, mimeType: 'text/markdown' },
+  json: { render: toJson, mimeType: 'application/json' },
+  srt: { render: toSrt, mimeType: 'application/x-subrip' },
+  vtt: { render: toWebVtt, mimeType: 'text/vtt' },
+};
+
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const fileStem = (record: ConsultationRecord) =>
+  `itero-consultation-${record.startedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+
+export function exportConsultation(record: ConsultationRecord, format: ExportFormat) {
+  const { render, mimeType } = FORMATS[format];
+  downloadFile(render(redactRecord(record)), `${fileStem(record)}.${format}`, mimeType);
+}
+
+/** Saves the stored WAV under the same name as the transcript exports. */
+export function exportRecording(record: ConsultationRecord, recording: Blob) {
+  downloadFile(recording, `${fileStem(record)}.wav`, 'audio/wav');
+}
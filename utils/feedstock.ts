@@ -0,0 +1,93 @@
+
+import { FunctionDeclaration, Type } from '@google/genai';
+import { FeedstockAssessment, FeedstockComposition, FeedstockVerdict, PolymerCode } from '../types.ts';
+import { FEEDSTOCK_SPEC } from '../constants.ts';
+
+export const FEEDSTOCK_TOOL_NAME = 'check_feedstock_eligibility';
+
+export const feedstockToolDeclaration: FunctionDeclaration = {
+  name: FEEDSTOCK_TOOL_NAME,
+  description: 'Checks whether a described plastic waste stream is eligible as feedstock for the Itero pyrolysis process. Returns ACCEPT, CONDITIONAL or REJECT with reasons.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      pe: { type: Type.NUMBER, description: 'Polyethylene (LDPE + HDPE) share, percent by weight.' },
+      pp: { type: Type.NUMBER, description: 'Polypropylene share, percent by weight.' },
+      ps: { type: Type.NUMBER, description: 'Polystyrene share, percent by weight.' },
+      pet: { type: Type.NUMBER, description: 'PET share, percent by weight.' },
+      pvc: { type: Type.NUMBER, description: 'PVC share, percent by weight.' },
+      other: { type: Type.NUMBER, description: 'Any other polymers, percent by weight.' },
+      moisture: { type: Type.NUMBER, description: 'Moisture content, percent by weight.' },
+      organic: { type: Type.NUMBER, description: 'Organic / food residue content, percent by weight.' },
+      contaminants: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Other contaminants mentioned by the caller, e.g. "metal", "paper labels".' },
+    },
+  },
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : undefined;
+};
+
+export function parseFeedstockArgs(args: Record<string, unknown> = {}): FeedstockComposition {
+  const polymers: Partial<Record<PolymerCode, number>> = {};
+  (['PE', 'PP', 'PS', 'PET', 'PVC', 'OTHER'] as PolymerCode[]).forEach(code => {
+    const value = toNumber(args[code.toLowerCase()]);
+    if (value !== undefined) polymers[code] = value;
+  });
+  const contaminants = Array.isArray(args.contaminants)
+    ? args.contaminants.filter((c): c is string => typeof c === 'string' && c.trim() !== '').map(c => c.trim())
+    : [];
+  return {
+    polymers,
+    moisturePercent: toNumber(args.moisture),
+    organicPercent: toNumber(args.organic),
+    contaminants,
+  };
+}
+
+export function assessFeedstock(composition: FeedstockComposition): FeedstockAssessment {
+  const reasons: string[] = [];
+  let verdict = FeedstockVerdict.ACCEPT;
+  const flag = (level: FeedstockVerdict, reason: string) => {
+    reasons.push(reason);
+    if (level === FeedstockVerdict.REJECT || verdict === FeedstockVerdict.ACCEPT) verdict = level;
+  };
+  const checkLimit = (value: number | undefined, limit: { accept: number; reject: number }, label: string) => {
+    if (value === undefined) return;
+    if (value > limit.reject) flag(FeedstockVerdict.REJECT, `${label} at ${value}% exceeds the ${limit.reject}% limit.`);
+    else if (value > limit.accept) flag(FeedstockVerdict.CONDITIONAL, `${label} at ${value}% is above ${limit.accept}%; a feed test at WLPP is required.`);
+  };
+
+  const { polymers } = composition;
+  const total = Object.values(polymers).reduce((sum, v) => sum + (v || 0), 0);
+  if (total === 0) {
+    flag(FeedstockVerdict.CONDITIONAL, 'No polymer breakdown was given; a sample analysis is required.');
+  } else {
+    if (Math.abs(total - 100) > FEEDSTOCK_SPEC.compositionTolerance) {
+      flag(FeedstockVerdict.CONDITIONAL, `Polymer shares add up to ${total}%, so they were normalised; a sample analysis should confirm them.`);
+    }
+    const share = (code: PolymerCode) => polymers[code] === undefined ? undefined : Math.round((polymers[code]! / total) * 1000) / 10;
+    const target = FEEDSTOCK_SPEC.targetPolymers.reduce((sum, code) => sum + (share(code) || 0), 0);
+    const targetLabel = FEEDSTOCK_SPEC.targetPolymers.join('/');
+    if (target < FEEDSTOCK_SPEC.targetShare.reject) {
+      flag(FeedstockVerdict.REJECT, `Only ${target}% is ${targetLabel}; at least ${FEEDSTOCK_SPEC.targetShare.reject}% is needed.`);
+    } else if (target < FEEDSTOCK_SPEC.targetShare.accept) {
+      flag(FeedstockVerdict.CONDITIONAL, `${target}% ${targetLabel} is below the ${FEEDSTOCK_SPEC.targetShare.accept}% preferred share.`);
+    }
+    checkLimit(share('PVC'), FEEDSTOCK_SPEC.pvc, 'PVC');
+    checkLimit(share('PET'), FEEDSTOCK_SPEC.pet, 'PET');
+  }
+
+  checkLimit(composition.moisturePercent, FEEDSTOCK_SPEC.moisture, 'Moisture');
+  checkLimit(composition.organicPercent, FEEDSTOCK_SPEC.organic, 'Organic content');
+
+  (composition.contaminants || []).forEach(c => {
+    const rejected = FEEDSTOCK_SPEC.rejectedContaminants.some(r => c.toLowerCase().includes(r));
+    if (rejected) flag(FeedstockVerdict.REJECT, `Contaminant "${c}" is not accepted.`);
+    else flag(FeedstockVerdict.CONDITIONAL, `Contaminant "${c}" needs review by the technical team.`);
+  });
+
+  if (reasons.length === 0) reasons.push(`Composition is within the ${FEEDSTOCK_SPEC.targetPolymers.join('/')} feed specification.`);
+  return { verdict, reasons, composition };
+}
@@ -0,0 +1,120 @@
+
+import { ConsultationRecord, SessionMetrics } from '../types.ts';
+
+const DB_NAME = 'itero-assistant';
+const DB_VERSION = 3;
+const STORE = 'consultations';
+// WAV blobs, keyed by the id of the consultation they belong to.
+const RECORDINGS = 'recordings';
+// Quality metrics for every session started, including ones that failed before producing a transcript.
+const METRICS = 'metrics';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDINGS)) db.createObjectStore(RECORDINGS);
+        if (!db.objectStoreNames.contains(METRICS)) {
+          const metrics = db.createObjectStore(METRICS, { keyPath: 'id' });
+          metrics.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  action: (tx: IDBTransaction) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = action(tx);
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Dates survive IndexedDB's structured clone, so records come back with real Date objects.
+// The record and its recording are written in one transaction so neither is left orphaned.
+export function saveConsultation(record: ConsultationRecord, recording?: Blob): Promise<IDBValidKey> {
+  return run([STORE, RECORDINGS], 'readwrite', tx => {
+    if (recording) tx.objectStore(RECORDINGS).put(recording, record.id);
+    return tx.objectStore(STORE).put(record);
+  });
+}
+
+/** Newest first. */
+export async function listConsultations(): Promise<ConsultationRecord[]> {
+  const records = await run<ConsultationRecord[]>([STORE], 'readonly', tx => tx.objectStore(STORE).index('startedAt').getAll());
+  return records.reverse();
+}
+
+export function getConsultation(id: string): Promise<ConsultationRecord | undefined> {
+  return run([STORE], 'readonly', tx => tx.objectStore(STORE).get(id));
+}
+
+export function getRecording(id: string): Promise<Blob | undefined> {
+  return run([RECORDINGS], 'readonly', tx => tx.objectStore(RECORDINGS).get(id));
+}
+
+export function deleteConsultation(id: string): Promise<undefined> {
+  return run([STORE, RECORDINGS], 'readwrite', tx => {
+    tx.objectStore(RECORDINGS).delete(id);
+    return tx.objectStore(STORE).delete(id);
+  });
+}
+
+/**
+ * Deletes consultations started before `cutoff`, with their recordings; resolves to how many
+ * went. Metrics are kept: they hold no transcript text.
+ */
+export async function purgeConsultationsBefore(cutoff: Date): Promise<number> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([STORE, RECORDINGS], 'readwrite');
+    const cursorRequest = tx.objectStore(STORE).index('startedAt').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    let purged = 0;
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      tx.objectStore(RECORDINGS).delete(cursor.primaryKey);
+      cursor.delete();
+      purged++;
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(purged);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function saveMetrics(metrics: SessionMetrics): Promise<IDBValidKey> {
+  return run([METRICS], 'readwrite', tx => tx.objectStore(METRICS).put(metrics));
+}
+
+/** Oldest first, the order the dashboard charts them in. */
+export function listMetrics(): Promise<SessionMetrics[]> {
+  return run([METRICS], 'readonly', tx => tx.objectStore(METRICS).index('startedAt').getAll());
+}
+
+export function clearMetrics(): Promise<undefined> {
+  return run([METRICS], 'readwrite', tx => tx.objectStore(METRICS).clear());
+}
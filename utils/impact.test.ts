@@ -0,0 +1,71 @@
+
+import { describe, expect, it } from 'vitest';
+import { ImpactAssumptions } from '../types.ts';
+import { IMPACT_ASSUMPTIONS } from '../knowledge/impact.ts';
+import { WASTE_TYPES } from '../constants.ts';
+import { calculateImpact, describeImpact, parseImpactArgs, validateImpactAssumptions } from './impact.ts';
+
+const ASSUMPTIONS: ImpactAssumptions = {
+  version: '2.1.0',
+  updated: '2026-01-01',
+  yields: [{ feedstock: 'PP (Polypropylene)', oil: 0.8, gas: 0.1, char: 0.05, source: 'Test data' }],
+  emissions: {
+    landfill: { value: 0.1, source: 'Test data' },
+    incineration: { value: 2, source: 'Test data' },
+    pyrolysis: { value: 0.5, source: 'Test data' },
+  },
+  oilDisplacement: { value: 0.5, source: 'Test data' },
+};
+
+describe('validateImpactAssumptions', () => {
+  it('accepts the shipped assumptions', () => {
+    expect(validateImpactAssumptions(IMPACT_ASSUMPTIONS, WASTE_TYPES)).toEqual([]);
+  });
+
+  it('reports missing, unknown and impossible yields', () => {
+    const errors = validateImpactAssumptions(
+      { ...ASSUMPTIONS, yields: [...ASSUMPTIONS.yields, { feedstock: 'Rubber', oil: 0.9, gas: 0.2, char: 0, source: '' }] },
+      ['PP (Polypropylene)', 'PS (Polystyrene)'],
+    );
+    expect(errors).toEqual([
+      'No yield factors for accepted feedstock "PS (Polystyrene)".',
+      'Yield factors for "Rubber", which is not an accepted feedstock.',
+      'Yield factors for "Rubber" add up to more than 100%.',
+      'Yield factors for "Rubber" have no source.',
+    ]);
+  });
+});
+
+describe('parseImpactArgs', () => {
+  it('resolves the short code or the polymer name to the catalogue entry', () => {
+    expect(parseImpactArgs({ feedstock: 'ldpe', tonnes: '250' })).toEqual({ input: { feedstock: 'LDPE (Low-Density Polyethylene)', tonnes: 250 } });
+    expect(parseImpactArgs({ feedstock: 'Polystyrene', tonnes: 10 })).toEqual({ input: { feedstock: 'PS (Polystyrene)', tonnes: 10 } });
+  });
+
+  it('rejects unknown feedstocks and non-positive tonnages', () => {
+    expect(parseImpactArgs({ feedstock: 'PVC', tonnes: 10 })).toHaveProperty('error');
+    expect(parseImpactArgs({ feedstock: 'PP', tonnes: 0 })).toEqual({ error: 'Tonnes must be a positive number.' });
+  });
+});
+
+describe('calculateImpact', () => {
+  it('splits the feed into products and nets emissions against each baseline', () => {
+    const result = calculateImpact({ feedstock: 'PP', tonnes: 1000 }, ASSUMPTIONS);
+
+    expect(result.products).toEqual({ oil: 800, gas: 100, char: 50, losses: 50 });
+    expect(result.pyrolysisEmissions).toBe(500);
+    expect(result.displacementCredit).toBe(400);
+    // baseline - pyrolysis + displaced naphtha
+    expect(result.savings).toEqual({
+      landfill: { baselineEmissions: 100, netSaving: 0 },
+      incineration: { baselineEmissions: 2000, netSaving: 1900 },
+    });
+    expect(result.assumptionsVersion).toBe('2.1.0');
+  });
+
+  it('tells the agent which assumptions the figures rest on', () => {
+    const summary = describeImpact(calculateImpact({ feedstock: 'PP', tonnes: 1 }, ASSUMPTIONS), ASSUMPTIONS);
+    expect(summary.assumptions).toMatchObject({ version: '2.1.0', yieldSource: 'Test data', provisional: false });
+    expect(describeImpact(calculateImpact({ feedstock: 'PP', tonnes: 1 })).assumptions.provisional).toBe(true);
+  });
+});
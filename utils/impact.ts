@@ -0,0 +1,126 @@
+
+import { FunctionDeclaration, Type } from '@google/genai';
+import { BaselineRoute, ImpactAssumptions, ImpactInput, ImpactResult, YieldFactors } from '../types.ts';
+import { IMPACT_ASSUMPTIONS } from '../knowledge/impact.ts';
+
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+const BASELINES: BaselineRoute[] = ['landfill', 'incineration'];
+
+export const IMPACT_TOOL_NAME = 'estimate_recycling_impact';
+
+export const impactToolDeclaration: FunctionDeclaration = {
+  name: IMPACT_TOOL_NAME,
+  description: 'Estimates how much Itero-Oil, gas and char a quantity of an accepted feedstock yields, and the CO2e saved by pyrolysis compared with landfill and incineration. Figures come from versioned assumptions.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      feedstock: {
+        type: Type.STRING,
+        description: `One of the accepted feedstocks: ${IMPACT_ASSUMPTIONS.yields.map(y => y.feedstock).join(', ')}.`,
+      },
+      tonnes: { type: Type.NUMBER, description: 'Quantity of feedstock in tonnes, e.g. a monthly or annual tonnage.' },
+    },
+    required: ['feedstock', 'tonnes'],
+  },
+};
+
+/** Returns every problem found; `feedstocks` are the accepted names from the knowledge base. */
+export function validateImpactAssumptions(assumptions: ImpactAssumptions, feedstocks: string[]): string[] {
+  const errors: string[] = [];
+  if (!VERSION_PATTERN.test(assumptions.version)) errors.push(`Version "${assumptions.version}" is not of the form x.y.z.`);
+  if (isNaN(Date.parse(assumptions.updated))) errors.push(`Updated date "${assumptions.updated}" is not a valid date.`);
+
+  feedstocks.forEach(name => {
+    const count = assumptions.yields.filter(y => y.feedstock === name).length;
+    if (count === 0) errors.push(`No yield factors for accepted feedstock "${name}".`);
+    else if (count > 1) errors.push(`Yield factors for "${name}" are listed more than once.`);
+  });
+  assumptions.yields.forEach(y => {
+    if (!feedstocks.includes(y.feedstock)) errors.push(`Yield factors for "${y.feedstock}", which is not an accepted feedstock.`);
+    if ([y.oil, y.gas, y.char].some(f => !(f >= 0))) errors.push(`Yield factors for "${y.feedstock}" must not be negative.`);
+    else if (y.oil + y.gas + y.char > 1) errors.push(`Yield factors for "${y.feedstock}" add up to more than 100%.`);
+    if (!y.source.trim()) errors.push(`Yield factors for "${y.feedstock}" have no source.`);
+  });
+
+  const factors = [...Object.entries(assumptions.emissions), ['oilDisplacement', assumptions.oilDisplacement] as const];
+  factors.forEach(([name, factor]) => {
+    if (!(factor.value >= 0)) errors.push(`Factor "${name}" must not be negative.`);
+    if (!factor.source.trim()) errors.push(`Factor "${name}" has no source.`);
+  });
+  return errors;
+}
+
+// Callers say "LDPE" or "polystyrene" rather than the full catalogue name.
+export function findYieldFactors(name: string, assumptions: ImpactAssumptions = IMPACT_ASSUMPTIONS): YieldFactors | undefined {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return assumptions.yields.find(y => y.feedstock.toLowerCase() === wanted)
+    ?? assumptions.yields.find(y => {
+      const [code, full] = y.feedstock.toLowerCase().split(/\s*\(|\)/);
+      return code === wanted || full === wanted;
+    });
+}
+
+export function parseImpactArgs(args: Record<string, unknown> = {}): { input: ImpactInput } | { error: string } {
+  const factors = typeof args.feedstock === 'string' ? findYieldFactors(args.feedstock) : undefined;
+  if (!factors) {
+    return { error: `Unknown feedstock "${args.feedstock ?? ''}". Use one of: ${IMPACT_ASSUMPTIONS.yields.map(y => y.feedstock).join(', ')}.` };
+  }
+  const tonnes = typeof args.tonnes === 'string' ? parseFloat(args.tonnes) : args.tonnes;
+  if (typeof tonnes !== 'number' || !Number.isFinite(tonnes) || tonnes <= 0) {
+    return { error: 'Tonnes must be a positive number.' };
+  }
+  return { input: { feedstock: factors.feedstock, tonnes } };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Placeholder factors say so at the start of their source until measured values replace them.
+export const isProvisional = (factor: { source: string }) => factor.source.startsWith('Provisional');
+
+/** Throws for a feedstock without yield factors; use `parseImpactArgs` or `findYieldFactors` first. */
+export function calculateImpact(input: ImpactInput, assumptions: ImpactAssumptions = IMPACT_ASSUMPTIONS): ImpactResult {
+  const factors = findYieldFactors(input.feedstock, assumptions);
+  if (!factors) throw new Error(`No yield factors for "${input.feedstock}".`);
+  const { tonnes } = input;
+  const oil = tonnes * factors.oil;
+  const pyrolysisEmissions = tonnes * assumptions.emissions.pyrolysis.value;
+  const displacementCredit = oil * assumptions.oilDisplacement.value;
+
+  const savings = {} as ImpactResult['savings'];
+  BASELINES.forEach(route => {
+    const baselineEmissions = tonnes * assumptions.emissions[route].value;
+    savings[route] = { baselineEmissions: round(baselineEmissions), netSaving: round(baselineEmissions - pyrolysisEmissions + displacementCredit) };
+  });
+
+  return {
+    input: { feedstock: factors.feedstock, tonnes },
+    products: {
+      oil: round(oil),
+      gas: round(tonnes * factors.gas),
+      char: round(tonnes * factors.char),
+      losses: round(tonnes * (1 - factors.oil - factors.gas - factors.char)),
+    },
+    pyrolysisEmissions: round(pyrolysisEmissions),
+    displacementCredit: round(displacementCredit),
+    savings,
+    assumptionsVersion: assumptions.version,
+  };
+}
+
+/** Summary handed to the voice agent, carrying the assumptions each figure rests on. */
+export function describeImpact(result: ImpactResult, assumptions: ImpactAssumptions = IMPACT_ASSUMPTIONS) {
+  const factors = findYieldFactors(result.input.feedstock, assumptions)!;
+  return {
+    ...result,
+    units: 'All quantities in tonnes; emissions and savings in tonnes CO2e.',
+    assumptions: {
+      version: assumptions.version,
+      updated: assumptions.updated,
+      yieldSource: factors.source,
+      emissionSources: Object.fromEntries(Object.entries(assumptions.emissions).map(([route, f]) => [route, f.source])),
+      oilDisplacementSource: assumptions.oilDisplacement.source,
+      provisional: [factors, ...Object.values(assumptions.emissions), assumptions.oilDisplacement].some(isProvisional),
+    },
+  };
+}
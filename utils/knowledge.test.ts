@@ -0,0 +1,38 @@
+
+import { describe, expect, it } from 'vitest';
+import { ITERO_KNOWLEDGE } from '../knowledge/itero.ts';
+import { IMPACT_ASSUMPTIONS } from '../knowledge/impact.ts';
+import { FEEDSTOCK_SPEC } from '../constants.ts';
+import { compileSystemInstruction, validateKnowledgeBase } from './knowledge.ts';
+
+describe('knowledge base', () => {
+  it('accepts the shipped knowledge base', () => {
+    expect(validateKnowledgeBase(ITERO_KNOWLEDGE, FEEDSTOCK_SPEC.targetPolymers)).toEqual([]);
+  });
+
+  it('reports a feedstock listed twice, even under different capitalisation', () => {
+    const { accepted, rejected } = ITERO_KNOWLEDGE.wasteTypes;
+    const kb = { ...ITERO_KNOWLEDGE, wasteTypes: { accepted, rejected: [...rejected, { name: 'pp (polypropylene)', polymers: [] }] } };
+    expect(validateKnowledgeBase(kb, FEEDSTOCK_SPEC.targetPolymers)).toEqual(['Feedstock "pp (polypropylene)" is listed more than once.']);
+  });
+
+  it('reports feedstock lists that contradict the feedstock spec', () => {
+    const kb = {
+      ...ITERO_KNOWLEDGE,
+      wasteTypes: {
+        accepted: [{ name: 'PET bottles', polymers: ['PET' as const] }],
+        rejected: [{ name: 'Polystyrene foam', polymers: ['PS' as const] }],
+      },
+    };
+    expect(validateKnowledgeBase(kb, FEEDSTOCK_SPEC.targetPolymers)).toEqual([
+      'Accepted feedstock "PET bottles" contains PET, which the feedstock spec does not accept.',
+      'Rejected feedstock "Polystyrene foam" contains PS, which the feedstock spec accepts.',
+    ]);
+  });
+
+  it('reports a missing technical contact instead of failing to compile', () => {
+    const kb = { ...ITERO_KNOWLEDGE, contacts: ITERO_KNOWLEDGE.contacts.filter(c => c.role !== 'technical') };
+    expect(validateKnowledgeBase(kb, FEEDSTOCK_SPEC.targetPolymers)).toContain('No technical contact defined.');
+    expect(compileSystemInstruction(kb, IMPACT_ASSUMPTIONS)).toContain('suggest they contact our team');
+  });
+});
@@ -0,0 +1,53 @@
+
+import { MetricReading, TelemetrySource, TelemetryStatus } from '../types.ts';
+import { PLANT_METRICS } from '../constants.ts';
+
+// Per-metric noise, as a fraction of the nominal value.
+const VOLATILITY: Record<string, number> = {
+  conversion: 0.004,
+  reactorTemp: 0.006,
+  feedRate: 0.02,
+  pressure: 0.03,
+};
+
+/**
+ * Development stand-in for the WLPP feed. Each metric drifts back towards its nominal
+ * value with some noise, and roughly once every few minutes one of them wanders off
+ * far enough to trip an alarm, so the panel's alarm states can be exercised.
+ */
+export class MockPlantSimulator implements TelemetrySource {
+  private values: Record<string, number> = {};
+  private excursion: { metricId: string; offset: number; ticksLeft: number } | null = null;
+
+  constructor(private intervalMs: number = 1000) {
+    PLANT_METRICS.forEach(m => { this.values[m.id] = m.nominal; });
+  }
+
+  private step(): MetricReading[] {
+    if (!this.excursion && Math.random() < 0.005) {
+      const metric = PLANT_METRICS[Math.floor(Math.random() * PLANT_METRICS.length)];
+      const direction = metric.high !== undefined && (metric.low === undefined || Math.random() < 0.5) ? 1 : -1;
+      this.excursion = { metricId: metric.id, offset: direction * metric.nominal * 0.12, ticksLeft: 20 };
+    }
+
+    const timestamp = new Date();
+    const readings = PLANT_METRICS.map(metric => {
+      let target = metric.nominal;
+      if (this.excursion?.metricId === metric.id) target += this.excursion.offset;
+      const noise = (Math.random() * 2 - 1) * metric.nominal * (VOLATILITY[metric.id] ?? 0.01);
+      const value = this.values[metric.id] + (target - this.values[metric.id]) * 0.2 + noise;
+      this.values[metric.id] = value;
+      return { metricId: metric.id, value, timestamp };
+    });
+
+    if (this.excursion && --this.excursion.ticksLeft <= 0) this.excursion = null;
+    return readings;
+  }
+
+  start(onReadings: (readings: MetricReading[]) => void, onStatus: (status: TelemetryStatus) => void) {
+    onStatus(TelemetryStatus.SIMULATED);
+    onReadings(this.step());
+    const timer = setInterval(() => onReadings(this.step()), this.intervalMs);
+    return () => clearInterval(timer);
+  }
+}
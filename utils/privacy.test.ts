@@ -0,0 +1,95 @@
+
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RETENTION_DAYS, PRIVACY_NOTICE_VERSION } from '../constants.ts';
+import { loadConsent, loadRetentionDays, recordConsent, redactText, retentionCutoff, saveRetentionDays, withdrawConsent } from './privacy.ts';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('redactText', () => {
+  it('masks written and spoken email addresses but keeps the company ones', () => {
+    expect(redactText('Mail jane.doe@acme.co.uk or info@itero-tech.com')).toBe('Mail [email] or info@itero-tech.com');
+    expect(redactText('It is jane dot doe at acme dot com')).toBe('It is [email]');
+    expect(redactText('Write to info at itero-tech dot com')).toBe('Write to info at itero-tech dot com');
+  });
+
+  it('masks phone numbers but not quantities, dates or years', () => {
+    expect(redactText('Call +44 20 7946 0958 or (020) 7946-0958.')).toBe('Call [phone] or [phone].');
+    expect(redactText('About 1 200 000 tonnes a year since 2019-03-01.')).toBe('About 1 200 000 tonnes a year since 2019-03-01.');
+    expect(redactText('We ship 250 300 400 tonnes')).toBe('We ship 250 300 400 tonnes');
+    expect(redactText('Batch 2024 1015 1130')).toBe('Batch 2024 1015 1130');
+    expect(redactText('Mobile 07700 900123, US office 415-555-0132')).toBe('Mobile [phone], US office [phone]');
+    expect(redactText('Collected 01/02/2024 10:30, next on 03.02.2024 09:15')).toBe('Collected 01/02/2024 10:30, next on 03.02.2024 09:15');
+  });
+
+  it('masks UK and Dutch postcodes but not polymer codes or units', () => {
+    expect(redactText('Our yard is at SW1A 1AA, the depot at m1 1ae.')).toBe('Our yard is at [postcode], the depot at [postcode].');
+    expect(redactText('Deliver to 1012 AB Amsterdam')).toBe('Deliver to [postcode] Amsterdam');
+    expect(redactText("Depot: 5211 CA 's-Hertogenbosch")).toBe("Depot: [postcode] 's-Hertogenbosch");
+    expect(redactText('By 2030 EU rules apply, as 2024 UK figures show for 2000 KG of film')).toBe('By 2030 EU rules apply, as 2024 UK figures show for 2000 KG of film');
+    expect(redactText('We bale 1200 PP and emit CO2 5kg per unit')).toBe('We bale 1200 PP and emit CO2 5kg per unit');
+    expect(redactText('Deliver to unit B2 3rd floor, the a1 2nd grade bales')).toBe('Deliver to unit B2 3rd floor, the a1 2nd grade bales');
+  });
+});
+
+describe('consent', () => {
+  it('round-trips the consent for the current notice and forgets it when withdrawn', () => {
+    const storage = memoryStorage();
+    expect(loadConsent(storage)).toBeNull();
+
+    const acceptedAt = new Date('2026-03-02T10:00:00Z');
+    recordConsent(acceptedAt, storage);
+    expect(loadConsent(storage)).toEqual({ acceptedAt, noticeVersion: PRIVACY_NOTICE_VERSION });
+
+    withdrawConsent(storage);
+    expect(loadConsent(storage)).toBeNull();
+  });
+
+  it('keeps consent for each embedding host apart from the app and from each other', () => {
+    const storage = memoryStorage();
+    recordConsent(new Date('2026-03-02T10:00:00Z'), storage);
+    expect(loadConsent(storage, 'embedded:https://itero-tech.com')).toBeNull();
+
+    recordConsent(new Date('2026-03-02T10:00:00Z'), storage, 'embedded:https://itero-tech.com');
+    expect(loadConsent(storage, 'embedded:https://itero-tech.com')).not.toBeNull();
+    expect(loadConsent(storage, 'embedded:https://partner.example')).toBeNull();
+  });
+
+  it('asks every time when there is no storage to keep it in', () => {
+    // There is no window under the test runner, as when a browser blocks storage outright.
+    expect(() => recordConsent()).not.toThrow();
+    expect(loadConsent()).toBeNull();
+    expect(() => withdrawConsent()).not.toThrow();
+  });
+
+  it('asks again after the notice changes', () => {
+    const storage = memoryStorage();
+    storage.setItem('itero-privacy-consent', JSON.stringify({ acceptedAt: new Date(), noticeVersion: '0.9.0' }));
+    expect(loadConsent(storage)).toBeNull();
+  });
+});
+
+describe('retention', () => {
+  it('only accepts the offered periods', () => {
+    const storage = memoryStorage();
+    saveRetentionDays(90, storage);
+    expect(loadRetentionDays(storage)).toBe(90);
+    saveRetentionDays(3, storage);
+    expect(loadRetentionDays(storage)).toBe(DEFAULT_RETENTION_DAYS);
+  });
+
+  it('uses the default period when there is no storage', () => {
+    expect(() => saveRetentionDays(90)).not.toThrow();
+    expect(loadRetentionDays()).toBe(DEFAULT_RETENTION_DAYS);
+  });
+
+  it('puts the cutoff the given number of days back', () => {
+    expect(retentionCutoff(30, new Date('2026-03-31T12:00:00Z'))).toEqual(new Date('2026-03-01T12:00:00Z'));
+  });
+});
@@ -0,0 +1,109 @@
+
+import { ConsultationRecord, Message, PrivacyConsent } from '../types.ts';
+import { COMPANY_EMAILS, DEFAULT_RETENTION_DAYS, PRIVACY_NOTICE_VERSION, RETENTION_DAYS_OPTIONS } from '../constants.ts';
+
+const CONSENT_KEY = 'itero-privacy-consent';
+const RETENTION_KEY = 'itero-retention-days';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SettingsStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+const EMAIL = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+// Speech transcription writes addresses out: "jane dot doe at example dot com".
+const SPOKEN_EMAIL = /\b[a-z0-9_%+-]+(?:\s+dot\s+[a-z0-9_%+-]+)*\s+at\s+[a-z0-9-]+(?:\s+dot\s+[a-z0-9-]+)+\b/gi;
+// Numbers dialled with a country code (+44 ...), a trunk prefix (020 ..., (020) ...) or in
+// 3-3-4 groups; only those with enough digits to be a phone number are masked. Lists of
+// quantities, years and batch numbers start with neither, so they are left alone, and a
+// leading date or a trailing time ("01/02/2024 10:30") never starts or ends a number.
+const PHONE = /(?<![\w+()\/.-])(?!\d{1,2}([\/.-])\d{1,2}\1\d{2,4}\b)(?:\+|\(?0)\d[\d\s().\/-]{4,}\d(?![\d:])|\b\d{3}[-.]\d{3}[-.]\d{4}\b/g;
+const MIN_PHONE_DIGITS = 9;
+// UK postcodes (the inward code never uses C, I, K, M, O or V, which keeps "CO2 5kg" out) and
+// Dutch ones. Lower case is accepted for UK postcodes because speech transcription writes
+// them that way, but then "b2 3rd" is an ordinal, not an inward code. A Dutch postcode never
+// uses F, I, O, Q, U or Y (which keeps "2030 EU" and "2024 UK" out) and is only taken as one
+// when a town follows, as it does in an address, so "2000 KG of film" stays; polymer codes
+// ("1200 PP") never count. Five-digit continental postcodes cannot be told apart from
+// tonnages, so they are left alone.
+const UK_POSTCODE = /\b[A-Za-z]{1,2}\d[A-Za-z\d]? ?\d(?!(?:st|nd|rd|th)\b)[ABD-HJLNP-UW-Zabd-hjlnp-uw-z]{2}\b/g;
+const NL_POSTCODE = /\b[1-9]\d{3} ?(?!PE\b|PP\b|PS\b|SA\b|SD\b|SS\b)[A-EGHJ-NPRSTV-XZ]{2}\b(?=,? +(?:'s[- ])?[A-Z][a-z])/g;
+
+const spokenToWritten = (spoken: string) =>
+  spoken.toLowerCase().replace(/\s+dot\s+/g, '.').replace(/\s+at\s+/, '@');
+
+export const REDACTION_MASKS = { email: '[email]', phone: '[phone]', postcode: '[postcode]' };
+
+/** Masks email addresses, phone numbers and postcodes; addresses in `keep` are left as they are. */
+export function redactText(text: string, keep: string[] = COMPANY_EMAILS): string {
+  const kept = new Set(keep.map(e => e.toLowerCase()));
+  return text
+    .replace(EMAIL, match => kept.has(match.toLowerCase()) ? match : REDACTION_MASKS.email)
+    .replace(SPOKEN_EMAIL, match => kept.has(spokenToWritten(match)) ? match : REDACTION_MASKS.email)
+    .replace(PHONE, match => match.replace(/\D/g, '').length < MIN_PHONE_DIGITS ? match : REDACTION_MASKS.phone)
+    .replace(UK_POSTCODE, REDACTION_MASKS.postcode)
+    .replace(NL_POSTCODE, REDACTION_MASKS.postcode);
+}
+
+export const redactMessages = (messages: Message[]): Message[] =>
+  messages.map(m => ({ ...m, text: redactText(m.text) }));
+
+/** Applied again on export, so consultations stored before redaction existed leave masked too. */
+export const redactRecord = (record: ConsultationRecord): ConsultationRecord =>
+  ({ ...record, messages: redactMessages(record.messages) });
+
+// Settings live in localStorage, which can be unavailable (private windows, blocked storage);
+// then writes are dropped, consent is asked every time and the default retention applies.
+// Even reading `window.localStorage` can throw there, so it is only looked up on use.
+const getStorage = (): SettingsStorage | null => {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+// Consent given to one notice never covers another: the embedded widget keeps a separate
+// consent per host page, whose notice says transcripts go to that page.
+const consentKey = (scope?: string) => scope ? `${CONSENT_KEY}:${scope}` : CONSENT_KEY;
+
+/** The stored consent, or null if there is none for the current notice. */
+export function loadConsent(storage?: SettingsStorage, scope?: string): PrivacyConsent | null {
+  try {
+    const stored = JSON.parse((storage ?? getStorage())?.getItem(consentKey(scope)) ?? 'null');
+    if (stored?.noticeVersion !== PRIVACY_NOTICE_VERSION) return null;
+    return { acceptedAt: new Date(stored.acceptedAt), noticeVersion: stored.noticeVersion };
+  } catch {
+    return null;
+  }
+}
+
+export function recordConsent(now = new Date(), storage?: SettingsStorage, scope?: string): PrivacyConsent {
+  const consent: PrivacyConsent = { acceptedAt: now, noticeVersion: PRIVACY_NOTICE_VERSION };
+  try {
+    (storage ?? getStorage())?.setItem(consentKey(scope), JSON.stringify(consent));
+  } catch {}
+  return consent;
+}
+
+export function withdrawConsent(storage?: SettingsStorage, scope?: string) {
+  try {
+    (storage ?? getStorage())?.removeItem(consentKey(scope));
+  } catch {}
+}
+
+export function loadRetentionDays(storage?: SettingsStorage): number {
+  try {
+    const days = Number((storage ?? getStorage())?.getItem(RETENTION_KEY));
+    return RETENTION_DAYS_OPTIONS.includes(days) ? days : DEFAULT_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_RETENTION_DAYS;
+  }
+}
+
+export function saveRetentionDays(days: number, storage?: SettingsStorage) {
+  try {
+    (storage ?? getStorage())?.setItem(RETENTION_KEY, String(days));
+  } catch {}
+}
+
+/** Consultations started before this are due for deletion. */
+export const retentionCutoff = (days: number, now = new Date()) => new Date(now.getTime() - days * DAY_MS);
@@ -0,0 +1,67 @@
+
+import { LiveServerSessionResumptionUpdate } from '@google/genai';
+import { BackoffOptions } from '../types.ts';
+import { RECONNECT_BACKOFF } from '../constants.ts';
+
+// Exponential backoff with "equal jitter": half of the window is fixed, the other
+// half random, so simultaneous clients don't all retry on the same tick.
+export function computeBackoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const window = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(window / 2 + random() * (window / 2));
+}
+
+export class ReconnectManager {
+  private attempt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private resumptionHandle: string | null = null;
+
+  constructor(private options: BackoffOptions = RECONNECT_BACKOFF) {}
+
+  get attempts(): number {
+    return this.attempt;
+  }
+
+  get maxAttempts(): number {
+    return this.options.maxAttempts;
+  }
+
+  get handle(): string | null {
+    return this.resumptionHandle;
+  }
+
+  // The server only hands out a handle at points where the session can be
+  // restored without losing state; non-resumable updates keep the last good one.
+  updateHandle(update: LiveServerSessionResumptionUpdate) {
+    if (update.resumable && update.newHandle) this.resumptionHandle = update.newHandle;
+  }
+
+  /** Schedules `task` after the next backoff delay. Returns the delay, or null once attempts are exhausted. */
+  schedule(task: () => void): number | null {
+    this.cancel();
+    if (this.attempt >= this.options.maxAttempts) return null;
+    const delay = computeBackoffDelay(this.attempt, this.options);
+    this.attempt++;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      task();
+    }, delay);
+    return delay;
+  }
+
+  cancel() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /** Called once a connection is established again. */
+  reset() {
+    this.cancel();
+    this.attempt = 0;
+  }
+
+  /** Forget everything, including the resumption handle, when the user ends the session. */
+  clear() {
+    this.reset();
+    this.resumptionHandle = null;
+  }
+}
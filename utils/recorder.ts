@@ -0,0 +1,130 @@
+
+import { RECORDING_SAMPLE_RATE } from '../constants.ts';
+
+// Both streams are placed on the output AudioContext's clock: agent audio at the time
+// it was scheduled to play, caller audio at the time it was sent. Caller batches that
+// land within SNAP_SECONDS of the previous one are joined end to end, so timer jitter
+// between chunks does not leave clicks or gaps in an otherwise continuous stream.
+const SNAP_SECONDS = 0.2;
+
+interface Clip {
+  start: number;
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+const clipEnd = (clip: Clip) => clip.start + clip.samples.length / clip.sampleRate;
+
+/** Linear-interpolation resampler; good enough for speech at these rates. */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const length = Math.round(samples.length * toRate / fromRate);
+  const out = new Float32Array(length);
+  const step = fromRate / toRate;
+  for (let i = 0; i < length; i++) {
+    const pos = i * step;
+    const index = Math.floor(pos);
+    const next = Math.min(index + 1, samples.length - 1);
+    out[i] = samples[index] + (samples[next] - samples[index]) * (pos - index);
+  }
+  return out;
+}
+
+/** 16-bit PCM WAV with the channels interleaved in the order given. */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const frames = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const buffer = new ArrayBuffer(44 + frames * blockAlign);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + frames * blockAlign, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (const channel of channels) {
+      const s = Math.max(-1, Math.min(1, channel[i]));
+      view.setInt16(offset, s < 0 ? s * 32768 : s * 32767, true);
+      offset += 2;
+    }
+  }
+  return buffer;
+}
+
+/**
+ * Collects caller and agent audio for one consultation and renders it as a stereo WAV,
+ * caller on the left and agent on the right. Times are in seconds on the output
+ * AudioContext's clock; `origin` is where the recording starts.
+ */
+export class ConsultationRecorder {
+  private callerClips: Clip[] = [];
+  private agentClips: Clip[] = [];
+  private callerCursor = -Infinity;
+
+  constructor(private readonly origin: number) {}
+
+  /** `chunks` were captured back to back and the last one ends at `endTime`. */
+  addCallerAudio(chunks: Float32Array[], sampleRate: number, endTime: number) {
+    const total = chunks.reduce((n, c) => n + c.length, 0);
+    if (total === 0) return;
+    let start = endTime - total / sampleRate;
+    if (Math.abs(start - this.callerCursor) < SNAP_SECONDS) start = this.callerCursor;
+    chunks.forEach(samples => {
+      this.callerClips.push({ start, samples, sampleRate });
+      start += samples.length / sampleRate;
+    });
+    this.callerCursor = start;
+  }
+
+  addAgentAudio(samples: Float32Array, sampleRate: number, startTime: number) {
+    this.agentClips.push({ start: startTime, samples, sampleRate });
+  }
+
+  /** Drops agent audio that was scheduled but never played because the caller interrupted. */
+  truncateAgent(time: number) {
+    this.agentClips = this.agentClips.flatMap(clip => {
+      if (clip.start >= time) return [];
+      if (clipEnd(clip) <= time) return [clip];
+      return [{ ...clip, samples: clip.samples.subarray(0, Math.floor((time - clip.start) * clip.sampleRate)) }];
+    });
+  }
+
+  get isEmpty() {
+    return this.callerClips.length === 0 && this.agentClips.length === 0;
+  }
+
+  get duration() {
+    const ends = [...this.callerClips, ...this.agentClips].map(clipEnd);
+    return Math.max(0, ...ends.map(end => end - this.origin));
+  }
+
+  toWav(sampleRate = RECORDING_SAMPLE_RATE): Blob {
+    const frames = Math.ceil(this.duration * sampleRate);
+    const render = (clips: Clip[]) => {
+      const channel = new Float32Array(frames);
+      clips.forEach(clip => {
+        const samples = resample(clip.samples, clip.sampleRate, sampleRate);
+        const offset = Math.round((clip.start - this.origin) * sampleRate);
+        for (let i = Math.max(0, -offset); i < samples.length && offset + i < frames; i++) {
+          channel[offset + i] += samples[i];
+        }
+      });
+      return channel;
+    };
+    return new Blob([encodeWav([render(this.callerClips), render(this.agentClips)], sampleRate)], { type: 'audio/wav' });
+  }
+}
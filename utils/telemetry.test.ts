@@ -0,0 +1,28 @@
+
+import { describe, expect, it, vi } from 'vitest';
+import { TelemetryStatus } from '../types.ts';
+import { MockPlantSimulator } from './plantSimulator.ts';
+import { createTelemetrySource, describeTelemetry } from './telemetry.ts';
+
+describe('createTelemetrySource', () => {
+  it('only simulates the plant when asked to', () => {
+    expect(createTelemetrySource('mock', '')).toBeInstanceOf(MockPlantSimulator);
+    expect(createTelemetrySource('', '')).not.toBeInstanceOf(MockPlantSimulator);
+    expect(createTelemetrySource('carrier-pigeon', 'https://plant.example/feed')).not.toBeInstanceOf(MockPlantSimulator);
+  });
+
+  it('reports the feed as offline when none is configured', () => {
+    const onStatus = vi.fn();
+    createTelemetrySource('', '').start(() => {}, onStatus);
+    expect(onStatus).toHaveBeenCalledWith(TelemetryStatus.OFFLINE);
+  });
+});
+
+describe('describeTelemetry', () => {
+  it('tells the agent when readings are simulated', () => {
+    const now = Date.now();
+    const latest = { conversion: { metricId: 'conversion', value: 81.23, timestamp: new Date(now) } };
+    expect(describeTelemetry(latest, TelemetryStatus.SIMULATED, now)).toHaveProperty('note');
+    expect(describeTelemetry(latest, TelemetryStatus.LIVE, now)).not.toHaveProperty('note');
+  });
+});
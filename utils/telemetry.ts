@@ -0,0 +1,167 @@
+
+import { FunctionDeclaration } from '@google/genai';
+import { AlarmLevel, MetricDefinition, MetricReading, TelemetrySource, TelemetryStatus } from '../types.ts';
+import { PLANT_METRICS, TELEMETRY_POLL_INTERVAL_MS, TELEMETRY_STALE_AFTER_MS } from '../constants.ts';
+import { ReconnectManager } from './reconnect.ts';
+import { MockPlantSimulator } from './plantSimulator.ts';
+
+export const TELEMETRY_TOOL_NAME = 'get_plant_telemetry';
+
+export const telemetryToolDeclaration: FunctionDeclaration = {
+  name: TELEMETRY_TOOL_NAME,
+  description: 'Returns the latest live readings from the West London Pilot Plant (WLPP): conversion, reactor temperature, feed rate and pressure, with their age and any active alarms.',
+};
+
+export function evaluateAlarm(metric: MetricDefinition, value: number): AlarmLevel | null {
+  if (metric.low !== undefined && value < metric.low) return 'LOW';
+  if (metric.high !== undefined && value > metric.high) return 'HIGH';
+  return null;
+}
+
+export function isStale(reading: MetricReading | undefined, now: number = Date.now()): boolean {
+  return !reading || now - reading.timestamp.getTime() > TELEMETRY_STALE_AFTER_MS;
+}
+
+/**
+ * Accepts a single reading or an array, as `{ metricId | metric, value, timestamp? }`.
+ * Unknown metrics and non-numeric values are dropped.
+ */
+export function parseReadings(payload: unknown): MetricReading[] {
+  const items = Array.isArray(payload) ? payload : [payload];
+  return items.flatMap((item: any) => {
+    const metricId = item?.metricId ?? item?.metric;
+    const value = typeof item?.value === 'string' ? parseFloat(item.value) : item?.value;
+    if (!PLANT_METRICS.some(m => m.id === metricId) || typeof value !== 'number' || !Number.isFinite(value)) return [];
+    const timestamp = item.timestamp ? new Date(item.timestamp) : new Date();
+    return [{ metricId, value, timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp }];
+  });
+}
+
+/** Summary handed to the voice agent; values are rounded the way the panel shows them. */
+export function describeTelemetry(latest: Record<string, MetricReading>, status: TelemetryStatus, now: number = Date.now()) {
+  return {
+    sourceStatus: status,
+    ...(status === TelemetryStatus.SIMULATED
+      ? { note: 'These readings are simulated for development and do not come from the plant. Do not present them as live WLPP conditions.' }
+      : {}),
+    readings: PLANT_METRICS.map(metric => {
+      const reading = latest[metric.id];
+      if (!reading) return { metric: metric.label, available: false };
+      return {
+        metric: metric.label,
+        available: true,
+        value: Math.round(reading.value * 10) / 10,
+        unit: metric.unit,
+        ageSeconds: Math.round((now - reading.timestamp.getTime()) / 1000),
+        stale: isStale(reading, now),
+        alarm: evaluateAlarm(metric, reading.value),
+      };
+    }),
+  };
+}
+
+export class WebSocketTelemetrySource implements TelemetrySource {
+  constructor(private url: string) {}
+
+  start(onReadings: (readings: MetricReading[]) => void, onStatus: (status: TelemetryStatus) => void) {
+    const reconnect = new ReconnectManager();
+    let socket: WebSocket | null = null;
+    let stopped = false;
+
+    const open = () => {
+      onStatus(TelemetryStatus.CONNECTING);
+      socket = new WebSocket(this.url);
+      socket.onopen = () => {
+        reconnect.reset();
+        onStatus(TelemetryStatus.LIVE);
+      };
+      socket.onmessage = (e) => {
+        try { onReadings(parseReadings(JSON.parse(e.data))); } catch (err) { console.warn("Bad telemetry frame", err); }
+      };
+      socket.onclose = () => {
+        if (stopped) return;
+        onStatus(TelemetryStatus.OFFLINE);
+        // Keep trying at the capped delay rather than giving up on a plant feed.
+        if (reconnect.schedule(open) === null) {
+          reconnect.reset();
+          reconnect.schedule(open);
+        }
+      };
+    };
+
+    open();
+    return () => {
+      stopped = true;
+      reconnect.cancel();
+      socket?.close();
+    };
+  }
+}
+
+export class SseTelemetrySource implements TelemetrySource {
+  constructor(private url: string) {}
+
+  // EventSource reconnects on its own, so errors only change the reported status.
+  start(onReadings: (readings: MetricReading[]) => void, onStatus: (status: TelemetryStatus) => void) {
+    onStatus(TelemetryStatus.CONNECTING);
+    const events = new EventSource(this.url);
+    events.onopen = () => onStatus(TelemetryStatus.LIVE);
+    events.onerror = () => onStatus(events.readyState === EventSource.CLOSED ? TelemetryStatus.OFFLINE : TelemetryStatus.CONNECTING);
+    events.onmessage = (e) => {
+      try { onReadings(parseReadings(JSON.parse(e.data))); } catch (err) { console.warn("Bad telemetry event", err); }
+    };
+    return () => events.close();
+  }
+}
+
+export class PollingTelemetrySource implements TelemetrySource {
+  constructor(private url: string, private intervalMs: number = TELEMETRY_POLL_INTERVAL_MS) {}
+
+  start(onReadings: (readings: MetricReading[]) => void, onStatus: (status: TelemetryStatus) => void) {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(this.url, { signal: controller.signal, cache: 'no-store' });
+        if (!response.ok) throw new Error(`Telemetry endpoint returned ${response.status}`);
+        onReadings(parseReadings(await response.json()));
+        onStatus(TelemetryStatus.LIVE);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        onStatus(TelemetryStatus.OFFLINE);
+      }
+      if (!controller.signal.aborted) timer = setTimeout(poll, this.intervalMs);
+    };
+
+    onStatus(TelemetryStatus.CONNECTING);
+    poll();
+    return () => {
+      controller.abort();
+      if (timer) clearTimeout(timer);
+    };
+  }
+}
+
+// Stands in when no plant feed is configured, so the panel and the agent report it as offline.
+const unavailableSource: TelemetrySource = {
+  start(_onReadings, onStatus) {
+    onStatus(TelemetryStatus.OFFLINE);
+    return () => {};
+  },
+};
+
+/**
+ * Picks the adapter from TELEMETRY_MODE (`websocket`, `sse`, `polling`) and TELEMETRY_URL.
+ * `mock` selects the local plant simulator, which the dev server uses by default; anything
+ * else without a usable URL reports the feed as offline.
+ */
+export function createTelemetrySource(mode = process.env.TELEMETRY_MODE, url = process.env.TELEMETRY_URL): TelemetrySource {
+  if (mode === 'mock') return new MockPlantSimulator();
+  if (url) {
+    if (mode === 'websocket') return new WebSocketTelemetrySource(url);
+    if (mode === 'sse') return new SseTelemetrySource(url);
+    if (mode === 'polling') return new PollingTelemetrySource(url);
+  }
+  return unavailableSource;
+}
@@ -0,0 +1,58 @@
+
+import { describe, expect, it } from 'vitest';
+import { VoiceGateOptions } from '../types.ts';
+import { VoiceGate } from './vad.ts';
+
+const OPTIONS: VoiceGateOptions = { marginDb: 12, minLevelDb: -50, hangoverChunks: 2, preRollChunks: 2, noiseWindowChunks: 10 };
+
+// A chunk whose RMS level is `db`.
+const chunk = (db: number) => new Float32Array(160).fill(10 ** (db / 20));
+
+const feed = (gate: VoiceGate, levels: number[]) => levels.map(db => gate.process(chunk(db)).length);
+
+describe('VoiceGate', () => {
+  it('stays closed in silence and steady background noise', () => {
+    const gate = new VoiceGate(OPTIONS);
+    expect(feed(gate, Array(20).fill(-70))).toEqual(Array(20).fill(0));
+    expect(feed(gate, Array(20).fill(-60))).toEqual(Array(20).fill(0));
+    expect(gate.isOpen).toBe(false);
+  });
+
+  it('opens for speech well above the floor', () => {
+    const gate = new VoiceGate(OPTIONS);
+    feed(gate, Array(5).fill(-60));
+    expect(feed(gate, [-30, -28])).toEqual([3, 1]);
+    expect(gate.isOpen).toBe(true);
+  });
+
+  it('stays open through a short pause, then closes', () => {
+    const gate = new VoiceGate(OPTIONS);
+    feed(gate, [-60, -60, -30]);
+    expect(feed(gate, [-60, -60, -60, -60])).toEqual([1, 1, 0, 0]);
+    expect(gate.isOpen).toBe(false);
+  });
+
+  it('sends the quiet chunks just before speech along with it', () => {
+    const gate = new VoiceGate(OPTIONS);
+    const before = [chunk(-62), chunk(-61), chunk(-60)];
+    before.forEach(c => gate.process(c));
+    const speech = chunk(-30);
+    expect(gate.process(speech)).toEqual([before[1], before[2], speech]);
+  });
+
+  it('closes again when the ambient noise rises and stays up', () => {
+    const gate = new VoiceGate(OPTIONS);
+    feed(gate, Array(10).fill(-65));
+    expect(feed(gate, [-40])).toEqual([3]);
+    const sent = feed(gate, Array(30).fill(-40));
+    expect(gate.isOpen).toBe(false);
+    expect(sent.slice(-5)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('keeps the floor down during speech that dips between words', () => {
+    const gate = new VoiceGate(OPTIONS);
+    feed(gate, Array(10).fill(-65));
+    const words = Array.from({ length: 40 }, (_, i) => (i % 5 === 4 ? -62 : -35));
+    expect(feed(gate, words).every(n => n > 0)).toBe(true);
+  });
+});
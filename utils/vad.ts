@@ -0,0 +1,113 @@
+
+import { SpeakingDetectionOptions, SpeakingState, VoiceGateOptions } from '../types.ts';
+import { SPEAKING_DETECTION, VOICE_GATE } from '../constants.ts';
+
+export function levelDb(chunk: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < chunk.length; i++) sum += chunk[i] * chunk[i];
+  const rms = Math.sqrt(sum / (chunk.length || 1));
+  return rms > 0 ? 20 * Math.log10(rms) : -100;
+}
+
+/**
+ * Energy-based voice gate. It follows the background level while closed, opens when a
+ * chunk stands clearly above it, and stays open through short pauses. While open, the
+ * floor follows the quietest recent chunk, so noise that rises for good closes it again.
+ * `process` returns the chunks that should be sent (empty while closed).
+ */
+export class VoiceGate {
+  private noiseFloorDb: number | null = null;
+  private hangover = 0;
+  private preRoll: Float32Array[] = [];
+  private recentDb: number[] = [];
+  private open = false;
+
+  constructor(private options: VoiceGateOptions = VOICE_GATE) {}
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  process(chunk: Float32Array): Float32Array[] {
+    const db = levelDb(chunk);
+    if (this.noiseFloorDb === null) this.noiseFloorDb = db;
+    this.recentDb = [...this.recentDb, db].slice(-this.options.noiseWindowChunks);
+    if (this.open && this.recentDb.length === this.options.noiseWindowChunks) {
+      this.noiseFloorDb = Math.max(this.noiseFloorDb, Math.min(...this.recentDb));
+    }
+    const isSpeech = db > Math.max(this.noiseFloorDb + this.options.marginDb, this.options.minLevelDb);
+
+    if (isSpeech) {
+      this.hangover = this.options.hangoverChunks;
+      if (!this.open) {
+        this.open = true;
+        const buffered = this.preRoll;
+        this.preRoll = [];
+        return [...buffered, chunk];
+      }
+      return [chunk];
+    }
+
+    // Only quiet chunks feed the noise estimate; it falls quickly and rises slowly.
+    const rate = db < this.noiseFloorDb ? 0.3 : 0.05;
+    this.noiseFloorDb += (db - this.noiseFloorDb) * rate;
+
+    if (this.open && this.hangover-- > 0) return [chunk];
+    this.open = false;
+    this.preRoll = [...this.preRoll, chunk].slice(-this.options.preRollChunks);
+    return [];
+  }
+
+  reset() {
+    this.noiseFloorDb = null;
+    this.hangover = 0;
+    this.preRoll = [];
+    this.recentDb = [];
+    this.open = false;
+  }
+}
+
+/**
+ * Decides whose turn it is from the caller and agent levels plus the server's turn events.
+ * The agent keeps the floor from its first reply chunk until `turnComplete` and until its
+ * audio has drained, so pauses in generation still read as "agent speaking".
+ */
+export class SpeakingTracker {
+  private userUntil = 0;
+  private agentUntil = 0;
+  private interruptedUntil = 0;
+  private agentTurnOpen = false;
+
+  constructor(private options: SpeakingDetectionOptions = SPEAKING_DETECTION) {}
+
+  agentTurnStarted() {
+    this.agentTurnOpen = true;
+  }
+
+  turnComplete() {
+    this.agentTurnOpen = false;
+  }
+
+  interrupted(now: number) {
+    this.agentTurnOpen = false;
+    this.agentUntil = 0;
+    this.interruptedUntil = now + this.options.interruptedHoldMs;
+  }
+
+  update(inputDb: number, outputDb: number, now: number): SpeakingState {
+    if (inputDb > this.options.userThresholdDb) this.userUntil = now + this.options.hangoverMs;
+    if (outputDb > this.options.agentThresholdDb) this.agentUntil = now + this.options.hangoverMs;
+
+    if (now < this.interruptedUntil) return SpeakingState.INTERRUPTED;
+    if (this.agentTurnOpen || now < this.agentUntil) return SpeakingState.AGENT_SPEAKING;
+    if (now < this.userUntil) return SpeakingState.USER_SPEAKING;
+    return SpeakingState.LISTENING;
+  }
+
+  reset() {
+    this.userUntil = 0;
+    this.agentUntil = 0;
+    this.interruptedUntil = 0;
+    this.agentTurnOpen = false;
+  }
+}
@@ -1,18 +1,49 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { ITERO_KNOWLEDGE } from './knowledge/itero.ts';
+import { IMPACT_ASSUMPTIONS } from './knowledge/impact.ts';
+import { validateKnowledgeBase } from './utils/knowledge.ts';
+import { validateImpactAssumptions } from './utils/impact.ts';
+import { FEEDSTOCK_SPEC } from './constants.ts';
 
-export default defineConfig(({ mode }) => {
+// Refuses to build (or start the dev server) with missing or contradictory facts.
+const knowledgeBaseCheck = (): Plugin => ({
+  name: 'itero-knowledge-check',
+  buildStart() {
+    const errors = validateKnowledgeBase(ITERO_KNOWLEDGE, FEEDSTOCK_SPEC.targetPolymers);
+    if (errors.length > 0) this.error(`Knowledge base v${ITERO_KNOWLEDGE.version} is invalid:\n- ${errors.join('\n- ')}`);
+    const impactErrors = validateImpactAssumptions(IMPACT_ASSUMPTIONS, ITERO_KNOWLEDGE.wasteTypes.accepted.map(f => f.name));
+    if (impactErrors.length > 0) this.error(`Impact assumptions v${IMPACT_ASSUMPTIONS.version} are invalid:\n- ${impactErrors.join('\n- ')}`);
+  },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
+      },
+      plugins: [react(), knowledgeBaseCheck()],
+      build: {
+        rollupOptions: {
+          // widget.html is the page the embed loader (vite.widget.config.ts) frames on host sites.
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            widget: path.resolve(__dirname, 'widget.html'),
+          },
+        },
       },
-      plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The Gemini key is deliberately not defined here: it stays with the backend in server/.
+        'process.env.BACKEND_URL': JSON.stringify(env.BACKEND_URL),
+        // The plant simulator is for development only; builds without a feed show it as offline.
+        'process.env.TELEMETRY_MODE': JSON.stringify(env.TELEMETRY_MODE || (command === 'serve' ? 'mock' : undefined)),
+        'process.env.TELEMETRY_URL': JSON.stringify(env.TELEMETRY_URL)
       },
       resolve: {
         alias: {
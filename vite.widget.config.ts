@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the embed loader as one classic script, dist/itero-widget.js, next to the app build
+// so it can find widget.html relative to its own URL. Run after the main build, which empties dist.
+export default defineConfig({
+  build: {
+    outDir: 'dist',
+    emptyOutDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'widget/loader.ts'),
+      name: 'IteroWidget',
+      formats: ['iife'],
+      fileName: () => 'itero-widget.js',
+    },
+  },
+});
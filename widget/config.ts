@@ -0,0 +1,41 @@
+
+import { WidgetConfig, WidgetTheme } from '../types.ts';
+import { DEFAULT_VOICE, VOICES, WIDGET_CONTEXT_MAX_LENGTH } from '../constants.ts';
+import { detectLanguage } from '../i18n/index.ts';
+
+const THEMES: WidgetTheme[] = ['dark', 'light'];
+
+// Only web origins can receive events; "null" (sandboxed or file pages) and junk are refused.
+function originOf(url: string | null): string | null {
+  if (!url) return null;
+  try {
+    const { protocol, origin } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? origin : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the widget page's query parameters. Anything missing or unrecognised falls back
+ * to the defaults, so a typo on the host page never stops the widget from loading.
+ */
+export function parseWidgetConfig(
+  params: URLSearchParams,
+  referrer: string = document.referrer,
+  preferred: readonly string[] = navigator.languages,
+): WidgetConfig {
+  const voice = VOICES.find(v => v.toLowerCase() === params.get('voice')?.toLowerCase()) ?? DEFAULT_VOICE;
+  const theme = THEMES.find(t => t === params.get('theme')?.toLowerCase()) ?? 'dark';
+  const language = params.get('language');
+  // One line, no double quotes: the context is quoted inside the system instruction.
+  const context = params.get('context')?.replace(/\s+/g, ' ').replace(/"/g, "'").trim().slice(0, WIDGET_CONTEXT_MAX_LENGTH);
+
+  return {
+    voice,
+    theme,
+    language: detectLanguage(language ? [language, ...preferred] : preferred),
+    ...(context ? { context } : {}),
+    hostOrigin: originOf(params.get('origin')) ?? originOf(referrer),
+  };
+}
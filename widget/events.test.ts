@@ -0,0 +1,51 @@
+
+import { describe, expect, it, vi } from 'vitest';
+import { EnquiryDraft } from '../types.ts';
+import { createHostChannel, enquiryEvent, transcriptEvent } from './events.ts';
+import { isWidgetMessage } from './protocol.ts';
+
+describe('createHostChannel', () => {
+  it('posts tagged events to the host origin only', () => {
+    const postMessage = vi.fn();
+    createHostChannel('https://itero-tech.com', { postMessage } as unknown as Window).post({ type: 'session-start', startedAt: new Date(0) });
+    expect(postMessage).toHaveBeenCalledOnce();
+    const [message, targetOrigin] = postMessage.mock.calls[0];
+    expect(isWidgetMessage(message)).toBe(true);
+    expect(message.type).toBe('session-start');
+    expect(targetOrigin).toBe('https://itero-tech.com');
+  });
+
+  it('posts nothing when the host origin is unknown', () => {
+    const postMessage = vi.fn();
+    createHostChannel(null, { postMessage } as unknown as Window).post({ type: 'session-start', startedAt: new Date(0) });
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
+
+describe('event payloads', () => {
+  it('masks transcripts and leaves pictures out', () => {
+    const event = transcriptEvent({
+      role: 'user',
+      text: 'Mail me at jane@acme.com',
+      timestamp: new Date(0),
+      modality: 'voice',
+      images: [{ dataUrl: 'data:image/jpeg;base64,AAAA', source: 'upload', capturedAt: new Date(0) }],
+    });
+    expect(event).toEqual({ type: 'transcript', entry: { role: 'user', text: 'Mail me at [email]', timestamp: new Date(0), modality: 'voice' } });
+  });
+
+  it('never includes contact details of an enquiry', () => {
+    const draft: EnquiryDraft = {
+      id: 'e1',
+      createdAt: new Date(0),
+      enquiry: {
+        contactName: 'Jane Doe', company: 'Acme', email: 'jane@acme.com', phone: '+44 20 7946 0958',
+        wasteStream: 'Mixed films', monthlyTonnage: 40, location: 'Leeds', question: 'Can you take it?',
+      },
+      transcriptExcerpt: [{ role: 'user', text: 'I am Jane Doe', timestamp: new Date(0), modality: 'voice' }],
+    };
+    const event = enquiryEvent(draft);
+    expect(event).toEqual({ type: 'enquiry', id: 'e1', createdAt: new Date(0), company: 'Acme', wasteStream: 'Mixed films', monthlyTonnage: 40, location: 'Leeds' });
+    expect(JSON.stringify(event)).not.toMatch(/Jane|jane@|7946|Can you/);
+  });
+});
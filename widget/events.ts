@@ -0,0 +1,35 @@
+
+import { EnquiryDraft, Message, WidgetEvent } from '../types.ts';
+import { redactText } from '../utils/privacy.ts';
+import { WIDGET_MESSAGE_SOURCE, WidgetMessage } from './protocol.ts';
+
+export interface HostChannel {
+  post(event: WidgetEvent): void;
+}
+
+/**
+ * Posts events to the page embedding the widget. Nothing is sent when the widget is not
+ * framed or the host origin is unknown; a wrong origin makes the browser drop the message.
+ */
+export function createHostChannel(hostOrigin: string | null, target: Window | null = window.parent === window ? null : window.parent): HostChannel {
+  return {
+    post: event => {
+      if (!target || !hostOrigin) return;
+      const message: WidgetMessage = { ...event, source: WIDGET_MESSAGE_SOURCE };
+      target.postMessage(message, hostOrigin);
+    },
+  };
+}
+
+export const transcriptEvent = ({ role, text, timestamp, modality }: Message): WidgetEvent =>
+  ({ type: 'transcript', entry: { role, text: redactText(text), timestamp, modality } });
+
+export const enquiryEvent = ({ id, createdAt, enquiry }: EnquiryDraft): WidgetEvent => ({
+  type: 'enquiry',
+  id,
+  createdAt,
+  company: enquiry.company,
+  wasteStream: enquiry.wasteStream,
+  monthlyTonnage: enquiry.monthlyTonnage,
+  location: enquiry.location,
+});
@@ -0,0 +1,136 @@
+
+import { WIDGET_ATTRIBUTES, isWidgetMessage } from './protocol.ts';
+
+// The single script a host page includes. It defines <itero-assistant>, a floating launcher
+// that frames widget.html on first open and re-dispatches the widget's events on the element
+// as `itero:<type>` DOM events. It runs on someone else's page, so it only imports the
+// protocol and styles itself inside its shadow root.
+
+const ELEMENT_NAME = 'itero-assistant';
+
+// Captured while the script runs; the widget page is served next to it.
+const script = document.currentScript as HTMLScriptElement | null;
+const baseUrl = script?.src || window.location.href;
+
+const STYLES = `
+  :host { position: fixed; right: 24px; bottom: 24px; z-index: 2147483000; font-family: 'Inter', system-ui, sans-serif; }
+  .launcher {
+    width: 60px; height: 60px; border-radius: 50%; border: none; cursor: pointer;
+    background: linear-gradient(135deg, #FE5733, #981600); color: #fff;
+    box-shadow: 0 10px 30px rgba(254, 87, 51, 0.4); display: flex; align-items: center; justify-content: center;
+  }
+  .launcher:focus-visible { outline: 3px solid #FE5733; outline-offset: 3px; }
+  .launcher svg { width: 28px; height: 28px; }
+  .panel {
+    position: absolute; right: 0; bottom: 76px; width: 380px; height: 600px;
+    max-width: calc(100vw - 48px); max-height: calc(100vh - 120px);
+    border-radius: 24px; overflow: hidden; box-shadow: 0 20px 60px rgba(2, 6, 23, 0.5); background: #020617;
+  }
+  .panel[hidden] { display: none; }
+  iframe { width: 100%; height: 100%; border: 0; }
+`;
+
+const MIC_ICON = '<svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true"><path d="M12 15a3 3 0 0 0 3-3V6a3 3 0 0 0-6 0v6a3 3 0 0 0 3 3Zm5-3a5 5 0 0 1-10 0H5a7 7 0 0 0 6 6.92V21h2v-2.08A7 7 0 0 0 19 12h-2Z"/></svg>';
+const CLOSE_ICON = '<svg viewBox="0 0 24 24" fill="currentColor" aria-hidden="true"><path d="M18.3 5.7 12 12l6.3 6.3-1.4 1.4L10.6 13.4 4.3 19.7 2.9 18.3 9.2 12 2.9 5.7 4.3 4.3l6.3 6.3 6.3-6.3z"/></svg>';
+
+class IteroAssistantElement extends HTMLElement {
+  static observedAttributes = [...WIDGET_ATTRIBUTES];
+
+  private launcher: HTMLButtonElement;
+  private panel: HTMLDivElement;
+  private iframe: HTMLIFrameElement | null = null;
+  private widgetOrigin: string | null = null;
+
+  constructor() {
+    super();
+    const root = this.attachShadow({ mode: 'open' });
+    root.innerHTML = `<style>${STYLES}</style><div class="panel" hidden></div><button type="button" class="launcher"></button>`;
+    this.panel = root.querySelector('.panel') as HTMLDivElement;
+    this.launcher = root.querySelector('.launcher') as HTMLButtonElement;
+    this.launcher.addEventListener('click', () => this.toggle());
+    this.renderLauncher();
+  }
+
+  connectedCallback() {
+    window.addEventListener('message', this.onMessage);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.onMessage);
+  }
+
+  // The widget page reads its configuration once, so a change reloads it (ending any session).
+  attributeChangedCallback() {
+    if (this.iframe) this.iframe.src = this.widgetUrl();
+  }
+
+  get isOpen() {
+    return !this.panel.hidden;
+  }
+
+  open() {
+    if (!this.iframe) this.createFrame();
+    this.panel.hidden = false;
+    this.renderLauncher();
+  }
+
+  /** Hides the panel; a running consultation carries on until it is ended inside the widget. */
+  close() {
+    this.panel.hidden = true;
+    this.renderLauncher();
+  }
+
+  toggle() {
+    if (this.isOpen) this.close();
+    else this.open();
+  }
+
+  private renderLauncher() {
+    this.launcher.innerHTML = this.isOpen ? CLOSE_ICON : MIC_ICON;
+    this.launcher.setAttribute('aria-label', this.isOpen ? 'Close Itero Assistant' : 'Open Itero Assistant');
+    this.launcher.setAttribute('aria-expanded', String(this.isOpen));
+  }
+
+  private widgetUrl(): string {
+    const url = new URL('widget.html', baseUrl);
+    WIDGET_ATTRIBUTES.forEach(name => {
+      const value = this.getAttribute(name);
+      if (value) url.searchParams.set(name, value);
+    });
+    url.searchParams.set('origin', window.location.origin);
+    this.widgetOrigin = url.origin;
+    return url.href;
+  }
+
+  private createFrame() {
+    this.iframe = document.createElement('iframe');
+    this.iframe.title = 'Itero Assistant';
+    this.iframe.allow = 'microphone; camera; autoplay';
+    this.iframe.src = this.widgetUrl();
+    this.panel.appendChild(this.iframe);
+  }
+
+  private onMessage = (e: MessageEvent) => {
+    if (!this.iframe || e.source !== this.iframe.contentWindow || e.origin !== this.widgetOrigin) return;
+    if (!isWidgetMessage(e.data)) return;
+    const { source, ...event } = e.data;
+    this.dispatchEvent(new CustomEvent(`itero:${event.type}`, { detail: event, bubbles: true, composed: true }));
+  };
+}
+
+if (!customElements.get(ELEMENT_NAME)) customElements.define(ELEMENT_NAME, IteroAssistantElement);
+
+// With a plain script tag the launcher appears by itself, configured by the tag's data-*
+// attributes; pages that place the element themselves (or set data-manual) get no extra one.
+const autoMount = () => {
+  if (!script || script.hasAttribute('data-manual') || document.querySelector(ELEMENT_NAME)) return;
+  const element = document.createElement(ELEMENT_NAME);
+  WIDGET_ATTRIBUTES.forEach(name => {
+    const value = script.getAttribute(`data-${name}`);
+    if (value) element.setAttribute(name, value);
+  });
+  document.body.appendChild(element);
+};
+
+if (document.readyState === 'loading') document.addEventListener('DOMContentLoaded', autoMount);
+else autoMount();
@@ -0,0 +1,33 @@
+
+import React, { useMemo } from 'react';
+import ReactDOM from 'react-dom/client';
+import { I18nContext, Translator, translate } from '../i18n/index.ts';
+import AssistantWidget from '../components/AssistantWidget.tsx';
+import { parseWidgetConfig } from './config.ts';
+import { createHostChannel } from './events.ts';
+
+// Entry point of widget.html, the page the loader frames on the host site.
+
+const config = parseWidgetConfig(new URLSearchParams(window.location.search));
+const channel = createHostChannel(config.hostOrigin);
+
+const WidgetRoot = () => {
+  const t = useMemo<Translator>(() => (key, params) => translate(config.language, key, params), []);
+  return (
+    <I18nContext.Provider value={t}>
+      <AssistantWidget config={config} channel={channel} />
+    </I18nContext.Provider>
+  );
+};
+
+const rootElement = document.getElementById('root');
+if (!rootElement) {
+  throw new Error("Target container 'root' not found in the DOM.");
+}
+document.documentElement.lang = config.language;
+
+ReactDOM.createRoot(rootElement).render(
+  <React.StrictMode>
+    <WidgetRoot />
+  </React.StrictMode>
+);
@@ -0,0 +1,16 @@
+
+import { WidgetEvent } from '../types.ts';
+
+// Shared by the loader script and the widget page. The loader is the only code that runs on
+// the host page, so this module must stay free of app imports that would bloat it.
+
+export const WIDGET_MESSAGE_SOURCE = 'itero-assistant';
+
+/** What crosses `postMessage`: the event tagged with where it came from. */
+export type WidgetMessage = WidgetEvent & { source: typeof WIDGET_MESSAGE_SOURCE };
+
+export const isWidgetMessage = (data: unknown): data is WidgetMessage =>
+  typeof data === 'object' && data !== null && (data as { source?: unknown }).source === WIDGET_MESSAGE_SOURCE;
+
+/** Attributes of `<itero-assistant>` (or `data-*` on the script tag), passed to the widget page as query parameters. */
+export const WIDGET_ATTRIBUTES = ['voice', 'theme', 'language', 'context'] as const;